@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import OpenAI from "openai";
+import { haveSameStructure, normalizeLyrics, parseLyrics, serializeLyrics } from "../../lib/lyrics";
 
 export async function POST(request: Request) {
   try {
@@ -12,9 +13,11 @@ export async function POST(request: Request) {
       );
     }
 
+    const original = normalizeLyrics(lyrics);
+
     // Only process if language is Romanian
     if (language !== "ro") {
-      return NextResponse.json({ lyrics }); // Return original if not Romanian
+      return NextResponse.json({ lyrics: original.text }); // Return original if not Romanian
     }
 
     const openaiApiKey = process.env.OPENAI_API_KEY;
@@ -54,16 +57,22 @@ Examples:
         },
         {
           role: "user",
-          content: lyrics,
+          content: original.text,
         },
       ],
       temperature: 0.1, // Low temperature for consistency
     });
 
-    const correctedLyrics =
-      completion.choices[0]?.message?.content?.trim() || lyrics;
+    const correctedLyrics = completion.choices[0]?.message?.content?.trim();
+    const corrected = correctedLyrics ? parseLyrics(correctedLyrics) : null;
+
+    // Adding diacritics must not touch the structure; keep the original if it did
+    if (!corrected || !haveSameStructure(original.lyrics, corrected.lyrics)) {
+      console.warn("⚠️ Diacritics changed the lyrics structure, keeping the original");
+      return NextResponse.json({ lyrics: original.text });
+    }
 
-    return NextResponse.json({ lyrics: correctedLyrics });
+    return NextResponse.json({ lyrics: serializeLyrics(corrected.lyrics) });
   } catch (error) {
     console.error("Error adding diacritics:", error);
     return NextResponse.json(
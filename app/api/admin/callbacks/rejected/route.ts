@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listRejectedCallbacks } from '../../../../lib/queue';
+import { isAdminRequest } from '../../../../lib/admin-auth';
+
+/**
+ * List callbacks that failed authentication (newest first)
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const { total, attempts } = await listRejectedCallbacks(offset, limit);
+
+    return NextResponse.json({ total, offset, limit, attempts });
+  } catch (error: any) {
+    console.error('Error listing rejected callbacks:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list rejected callbacks' },
+      { status: 500 }
+    );
+  }
+}
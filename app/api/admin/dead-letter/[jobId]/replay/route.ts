@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replayDeadLetterJob } from '../../../../../lib/queue';
+import { isAdminRequest } from '../../../../../lib/admin-auth';
+
+/**
+ * Re-enqueue a dead-letter job with its attempts reset
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const job = await replayDeadLetterJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Dead-letter job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      message: 'Job re-enqueued. Check status with /api/job/{jobId}',
+    });
+  } catch (error: any) {
+    console.error('Error replaying dead-letter job:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to replay dead-letter job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeadLetterJob, purgeDeadLetterJob } from '../../../../lib/queue';
+import { isAdminRequest } from '../../../../lib/admin-auth';
+
+/**
+ * Inspect a dead-letter job: full payload, attempt errors and timestamps
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const job = await getDeadLetterJob(params.jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Dead-letter job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    console.error('Error getting dead-letter job:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to get dead-letter job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purge a single dead-letter job
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeDeadLetterJob(params.jobId);
+
+    if (!purged) {
+      return NextResponse.json(
+        { error: 'Dead-letter job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, jobId: params.jobId });
+  } catch (error: any) {
+    console.error('Error purging dead-letter job:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to purge dead-letter job' },
+      { status: 500 }
+    );
+  }
+}
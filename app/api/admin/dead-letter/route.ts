@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDeadLetterJobs, purgeDeadLetterQueue } from '../../../lib/queue';
+import { isAdminRequest } from '../../../lib/admin-auth';
+
+/**
+ * List dead-letter jobs (newest first)
+ * Query params: offset (default 0), limit (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const { total, jobs } = await listDeadLetterJobs(offset, limit);
+
+    return NextResponse.json({
+      total,
+      offset,
+      limit,
+      jobs: jobs.map((job) => ({
+        jobId: job.id,
+        type: job.type,
+        userId: job.userId,
+        createdAt: job.createdAt,
+        failedAt: job.failedAt,
+        attempts: job.attempts,
+        error: job.error,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error listing dead-letter jobs:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list dead-letter jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purge the whole dead-letter queue
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeDeadLetterQueue();
+    return NextResponse.json({ success: true, purged });
+  } catch (error: any) {
+    console.error('Error purging dead-letter queue:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to purge dead-letter queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,144 @@
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  claimCallbackStage,
+  completeJob,
+  failJob,
+  getCallbackStages,
+  getJobStatus,
+  isCallbackStage,
+  recordJobEvent,
+  releaseCallbackStage,
+  saveJobProgress,
+  type CallbackStage,
+  type CallbackStageRecord,
+} from '../../lib/queue'
+import { getMusicStage, toMusicTracks, type MusicStage } from '../../lib/suno'
+import { authenticateCallback } from '../../lib/callback-auth'
 
+const STAGE_RANK: Record<MusicStage, number> = { pending: 0, stream: 1, complete: 2 }
+
+/**
+ * Suno music generation callback
+ * Only accepted with the signed token of the job's callback URL (see callback-auth).
+ * Suno calls this for every stage of a task: 'text' (lyrics ready), 'first'
+ * (first track ready), 'complete' (all tracks ready) and 'error'.
+ * Each stage is stored once per task, so redelivered callbacks are no-ops, and
+ * the job result is always built from the most advanced stage received, so
+ * callbacks arriving out of order can't move a job backwards.
+ */
 export async function POST(request: NextRequest) {
+  // Claims to give back if processing fails, so Suno's retry goes through
+  let release: (() => Promise<void>) | undefined
+  let claimedStage: { taskId: string; stage: CallbackStage } | undefined
+
   try {
     const body = await request.json()
-    
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Callback received' 
+    const { code, msg, data } = body
+
+    const auth = await authenticateCallback(request, body)
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.reason },
+        { status: auth.reason === 'replay' ? 409 : 401 }
+      )
+    }
+    release = auth.release
+
+    const { jobId, taskId } = auth
+
+    await recordJobEvent(jobId, 'callback_received', {
+      taskId,
+      callbackType: data.callbackType,
+      code,
+      msg,
+    })
+
+    // Stages are stored and compared by name, so an unknown one is dropped here
+    if (code === 200 && !isCallbackStage(data.callbackType)) {
+      console.warn(`⚠️ Ignoring callback of unknown type ${JSON.stringify(data.callbackType)} for task ${taskId}`)
+      return NextResponse.json({ success: true, message: 'Unknown callback type' }, { status: 200 })
+    }
+
+    const stage: CallbackStage = code === 200 ? data.callbackType : 'error'
+
+    const job = await getJobStatus(jobId)
+
+    // The job was retried with a new Suno task since (or has expired)
+    if (!job || job.taskId !== taskId) {
+      console.log(`ℹ️ Ignoring ${stage} callback for superseded task ${taskId}`)
+      return NextResponse.json({ success: true, message: 'Task superseded' }, { status: 200 })
+    }
+
+    const record: CallbackStageRecord = {
+      receivedAt: Date.now(),
+      message: msg,
+      tracks: toMusicTracks(Array.isArray(data.data) ? data.data : []),
+    }
+
+    const claimed = await claimCallbackStage(taskId, stage, record)
+    if (!claimed) {
+      console.log(`ℹ️ Duplicate ${stage} callback for task ${taskId}`)
+      return NextResponse.json({ success: true, message: 'Duplicate callback' }, { status: 200 })
+    }
+    claimedStage = { taskId, stage }
+
+    if (job.status !== 'processing') {
+      console.log(`ℹ️ ${stage} callback for job ${jobId} after it was ${job.status}`)
+      return NextResponse.json({ success: true, message: `Job already ${job.status}` }, { status: 200 })
+    }
+
+    if (stage === 'error') {
+      console.error(`❌ Suno task ${taskId} failed: ${msg}`)
+      await failJob(jobId, `Music generation failed: ${msg || 'Suno reported an error'}`)
+      return NextResponse.json({ success: true, message: 'Callback received' }, { status: 200 })
+    }
+
+    // Build the result from the most advanced stage received so far
+    const stages = await getCallbackStages(taskId)
+    let best: { stage: MusicStage; record: CallbackStageRecord } = { stage: 'pending', record }
+
+    for (const stageRecord of Object.values(stages)) {
+      if (!stageRecord || stageRecord.tracks.length === 0) continue
+      const musicStage = getMusicStage(stageRecord.tracks)
+      if (STAGE_RANK[musicStage] > STAGE_RANK[best.stage]) {
+        best = { stage: musicStage, record: stageRecord }
+      }
+    }
+
+    const result = {
+      taskId,
+      stage: best.stage,
+      tracks: best.record.tracks,
+      callbacks: Object.fromEntries(
+        Object.entries(stages).map(([name, stageRecord]) => [name, stageRecord?.receivedAt])
+      ),
+    }
+
+    if (best.stage === 'complete') {
+      await completeJob(jobId, result)
+      console.log(`✅ Job ${jobId} completed from ${stage} callback`)
+    } else if (best.stage === 'stream') {
+      await saveJobProgress(jobId, result)
+      console.log(`⚡ Job ${jobId} stream preview ready from ${stage} callback`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Callback received'
     }, { status: 200 })
-    
+
   } catch (error) {
+    console.error('Error processing callback:', error)
+
+    try {
+      if (claimedStage) {
+        await releaseCallbackStage(claimedStage.taskId, claimedStage.stage)
+      }
+      await release?.()
+    } catch (releaseError) {
+      console.error('Failed to release callback claims:', releaseError)
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to process callback' },
       { status: 500 }
@@ -18,7 +147,7 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
-  return NextResponse.json({ 
+  return NextResponse.json({
     message: 'Callback endpoint is active',
     timestamp: new Date().toISOString()
   })
@@ -1,11 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processNextJob, completeJob, failJob, getQueueStats, getRateLimitConfig } from '../../../lib/queue';
+import {
+  processNextJob,
+  completeJob,
+  failJob,
+  getQueueStats,
+  getRateLimitConfig,
+  isCancelRequested,
+  markJobCancelled,
+  acquireWorkerLock,
+  isWorkerLockHeld,
+  releaseWorkerLock,
+  recordJobEvent,
+  awaitMusicTask,
+  getDueMusicTasks,
+  saveJobProgress,
+  scheduleMusicStatusCheck,
+  recordMetricSample,
+  type WorkerLock,
+} from '../../../lib/queue';
+import { getMusicTaskStatus, getSunoApiKey } from '../../../lib/suno';
+import { createCallbackUrl } from '../../../lib/callback-auth';
 import { containsProfanity, removeProfanity } from '../../../lib/profanity-filter';
+import { describeLyricsErrors, hasLyricsErrors, normalizeLyrics } from '../../../lib/lyrics';
+import { moderateLyrics } from '../../../lib/lyrics-moderation';
 import OpenAI from 'openai';
 
+// Longest the function may run on Vercel
+export const maxDuration = 60;
+
+// Time the worker loop may spend, and the minimum time a job needs to finish.
+// No new job is pulled once less than that is left (or less than the longest
+// job so far in this run took).
+const timeBudgetSeconds = parseInt(process.env.CRON_TIME_BUDGET_SECONDS || String(maxDuration - 5), 10);
+const jobReserveSeconds = parseInt(process.env.CRON_JOB_RESERVE_SECONDS || '30', 10);
+
+// A Suno task that hasn't produced full quality audio by then is failed (and retried)
+const musicTaskTimeoutSeconds = parseInt(process.env.QUEUE_MUSIC_TASK_TIMEOUT_SECONDS || '600', 10);
+
+type StopReason = 'idle' | 'max_jobs' | 'time_budget' | 'lock_lost';
+
 /**
  * Cron job that processes queued jobs with rate limiting
  * Runs every 10 seconds via Vercel Cron
+ * Overlapping runs are kept out by the worker lock; a run that finds it taken
+ * exits without touching the queue.
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret for security
@@ -17,58 +55,136 @@ export async function GET(request: NextRequest) {
 
   console.log('\n🔄 === CRON JOB STARTED ===');
   const startTime = Date.now();
+  const deadline = startTime + timeBudgetSeconds * 1000;
 
   // Get rate limit config from environment
   const rateLimitConfig = getRateLimitConfig();
   const maxJobs = rateLimitConfig.maxRequests; // Process up to rate limit per cron run
   console.log(`⚙️  Rate limit: ${rateLimitConfig.maxRequests} req/${rateLimitConfig.windowSeconds}s`);
 
+  // The lease outlives the time budget slightly, so it covers the last job
+  const lock = await acquireWorkerLock(timeBudgetSeconds + 5);
+  if (!lock) {
+    console.log('⏭️  Another worker holds the queue lock, skipping this run');
+    const stats = await getQueueStats();
+    return NextResponse.json({
+      success: true,
+      skipped: true,
+      reason: 'Another worker is processing the queue',
+      processed: 0,
+      remaining: {
+        pending: stats.pending,
+        inFlight: stats.inFlight,
+        scheduled: stats.scheduled,
+      },
+    });
+  }
+
   let processedCount = 0;
+  let cancelledCount = 0;
+  let failedCount = 0;
+  let longestJobMs = 0;
+  let stoppedBy: StopReason = 'max_jobs';
 
   try {
     // Get queue stats
     const stats = await getQueueStats();
-    console.log(`📊 Queue stats: ${stats.pending} pending jobs, ${stats.rateLimit.remaining} API calls remaining`);
+    console.log(`📊 Queue stats: ${stats.pending} pending jobs, ${stats.inFlight} in-flight, ${stats.scheduled} awaiting retry, ${stats.deadLetter} dead-lettered, ${stats.rateLimit.remaining} API calls remaining`);
+
+    // Running Suno tasks first: their owners have waited longest, and a check is quick
+    const musicTasksChecked = await checkMusicTasks(lock, deadline, maxJobs);
 
     while (processedCount < maxJobs) {
-      const job = await processNextJob();
+      const remainingMs = deadline - Date.now();
+      if (remainingMs < Math.max(jobReserveSeconds * 1000, longestJobMs)) {
+        console.log(`⏱️  ${Math.round(remainingMs / 1000)}s left in the time budget, not starting another job`);
+        stoppedBy = 'time_budget';
+        break;
+      }
+
+      if (!(await isWorkerLockHeld(lock))) {
+        console.warn(`⚠️ Worker lock token ${lock.token} lost, stopping`);
+        stoppedBy = 'lock_lost';
+        break;
+      }
+
+      const job = await processNextJob(lock.token);
 
       if (!job) {
         // No more jobs or rate limited
         console.log('⏸️  No more jobs to process or rate limit reached');
+        stoppedBy = 'idle';
         break;
       }
 
+      // Owner cancelled between dequeue and now: don't spend credits on it
+      if (await isCancelRequested(job.id)) {
+        console.log(`🚫 Job ${job.id} was cancelled, skipping`);
+        await markJobCancelled(job);
+        cancelledCount++;
+        continue;
+      }
+
+      const jobStartTime = Date.now();
+      await recordJobEvent(job.id, 'attempt_started', { attempt: job.attempts });
+
       try {
         console.log(`\n🔨 Processing ${job.type} job ${job.id} (attempt ${job.attempts})`);
 
-        let result: any;
-
         if (job.type === 'lyrics') {
-          result = await processLyricsJob(job.payload);
+          const result = await processLyricsJob(job.payload);
+          await completeJob(job.id, result, lock.token);
+          console.log(`✅ Job ${job.id} completed successfully`);
         } else if (job.type === 'music') {
-          result = await processMusicJob(job.payload);
+          // The job completes once the Suno task delivers audio (see checkMusicTasks)
+          const { taskId } = await processMusicJob(job.id, job.payload);
+          await awaitMusicTask(job.id, taskId, lock.token);
         } else {
           throw new Error(`Unknown job type: ${job.type}`);
         }
 
-        await completeJob(job.id, result);
         processedCount++;
-        console.log(`✅ Job ${job.id} completed successfully`);
       } catch (error: any) {
         console.error(`❌ Job ${job.id} failed:`, error.message);
-        await failJob(job.id, error.message);
+        await failJob(job.id, error.message, undefined, lock.token);
+        failedCount++;
       }
+
+      longestJobMs = Math.max(longestJobMs, Date.now() - jobStartTime);
     }
 
+    // Throughput samples for the queue wait estimate. A run that ran out of
+    // work says nothing about how many jobs a run can take.
+    const jobsStarted = processedCount + failedCount;
+    await recordMetricSample('worker_run', 'all', jobsStarted);
+    if (stoppedBy !== 'idle') {
+      await recordMetricSample('worker_capacity', 'all', jobsStarted);
+    }
+
+    const remaining = await getQueueStats();
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
     console.log(`\n✅ === CRON JOB FINISHED ===`);
-    console.log(`⏱️  Duration: ${duration}s`);
+    console.log(`⏱️  Duration: ${duration}s (stopped by: ${stoppedBy})`);
     console.log(`📦 Processed: ${processedCount} jobs`);
+    console.log(`❌ Failed: ${failedCount} jobs`);
+    console.log(`🚫 Cancelled: ${cancelledCount} jobs`);
+    console.log(`🎵 Suno tasks checked: ${musicTasksChecked}`);
+    console.log(`📊 Remaining: ${remaining.pending} pending, ${remaining.scheduled} awaiting retry`);
 
     return NextResponse.json({
       success: true,
+      skipped: false,
       processed: processedCount,
+      failed: failedCount,
+      cancelled: cancelledCount,
+      musicTasksChecked,
+      stoppedBy,
+      remaining: {
+        pending: remaining.pending,
+        inFlight: remaining.inFlight,
+        scheduled: remaining.scheduled,
+      },
       duration: parseFloat(duration),
     });
   } catch (error: any) {
@@ -77,9 +193,65 @@ export async function GET(request: NextRequest) {
       { error: error.message || 'Cron job failed' },
       { status: 500 }
     );
+  } finally {
+    await releaseWorkerLock(lock);
   }
 }
 
+/**
+ * Check the Suno tasks of music jobs that are due: store stream URLs as soon
+ * as they are ready, complete the job once full quality audio is, and fail it
+ * when Suno gives up or the task runs too long.
+ * Returns the number of tasks checked.
+ */
+async function checkMusicTasks(lock: WorkerLock, deadline: number, limit: number): Promise<number> {
+  const jobs = await getDueMusicTasks(limit);
+  let checked = 0;
+
+  for (const job of jobs) {
+    if (deadline - Date.now() < 5000) {
+      break;
+    }
+
+    if (await isCancelRequested(job.id)) {
+      await markJobCancelled(job);
+      continue;
+    }
+
+    if (Date.now() - (job.taskStartedAt || job.createdAt) > musicTaskTimeoutSeconds * 1000) {
+      await failJob(job.id, `Music generation timed out after ${musicTaskTimeoutSeconds}s`, undefined, lock.token);
+      continue;
+    }
+
+    checked++;
+
+    try {
+      const task = await getMusicTaskStatus(job.taskId!);
+      const result = { taskId: task.taskId, stage: task.stage, tracks: task.tracks };
+
+      if (task.failed) {
+        console.error(`❌ Suno task ${task.taskId} failed (${task.status})`);
+        await failJob(job.id, `Music generation failed: ${task.errorMessage || task.status}`, undefined, lock.token);
+      } else if (task.stage === 'complete') {
+        await completeJob(job.id, result, lock.token);
+        console.log(`✅ Job ${job.id} completed with full quality audio`);
+      } else {
+        if (task.stage === 'stream') {
+          await saveJobProgress(job.id, result);
+          console.log(`⚡ Job ${job.id} stream preview ready`);
+        }
+        await scheduleMusicStatusCheck(job.id);
+      }
+    } catch (error: any) {
+      // Transient API error: try again at the next check
+      console.error(`⚠️ Status check for job ${job.id} failed:`, error.message);
+      await scheduleMusicStatusCheck(job.id);
+    }
+  }
+
+  return checked;
+}
+
 /**
  * Process lyrics generation job
  */
@@ -181,13 +353,27 @@ CRITICAL: Never replace or generalize names - use them exactly as given!`,
         throw new Error(`Failed to generate lyrics for ${mood} mood`);
       }
 
+      // Malformed output fails the attempt, so the job is retried
+      const normalized = normalizeLyrics(lyrics);
+      if (hasLyricsErrors(normalized.issues)) {
+        throw new Error(`Malformed ${mood} lyrics: ${describeLyricsErrors(normalized.issues)}`);
+      }
+
+      // Each option is stored with its own verdict; one that can't be cleaned
+      // fails the attempt like malformed output
+      const moderated = await moderateLyrics(normalized);
+      if (!moderated) {
+        throw new Error(`${mood} lyrics failed moderation`);
+      }
+
       console.log(`   ✅ ${mood} lyrics generated`);
 
       return {
         id: `lyrics-${mood}-${Date.now()}`,
-        text: lyrics,
+        text: moderated.text,
         title: `${mood.charAt(0).toUpperCase() + mood.slice(1)} Version`,
         mood,
+        moderation: moderated.moderation,
       };
     })
   );
@@ -204,18 +390,20 @@ CRITICAL: Never replace or generalize names - use them exactly as given!`,
 /**
  * Process music generation job
  */
-async function processMusicJob(payload: any): Promise<any> {
-  const { endpoint, requestBody } = payload;
+async function processMusicJob(jobId: string, payload: any): Promise<any> {
+  const { endpoint } = payload;
+
+  // Suno reports back to our signed callback URL, never to one from the payload
+  const requestBody = {
+    ...payload.requestBody,
+    callBackUrl: createCallbackUrl('/api/callback', jobId),
+  };
 
   console.log('🎵 Calling Suno API V5...');
   console.log(`📍 Endpoint: ${endpoint}`);
   console.log(`🎼 Title: ${requestBody.title}`);
 
-  const apiKey = process.env.NEXT_PUBLIC_SUNO_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('NEXT_PUBLIC_SUNO_API_KEY is not configured');
-  }
+  const apiKey = getSunoApiKey();
 
   // Make the actual Suno API call
   const response = await fetch(endpoint, {
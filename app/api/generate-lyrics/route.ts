@@ -1,62 +1,118 @@
 import { NextResponse } from "next/server";
 import OpenAI from "openai";
+import {
+  describeLyricsErrors,
+  hasLyricsErrors,
+  normalizeLyrics,
+  parseLyrics,
+} from "../../lib/lyrics";
+import {
+  buildRepairInstruction,
+  extractNames,
+  validateLyrics,
+  DEFAULT_LYRICS_RULES,
+  type LyricsRules,
+} from "../../lib/lyrics-validator";
+import { analyzeMeter } from "../../lib/lyrics-meter";
+import { isValidRhymeScheme } from "../../lib/lyrics-rhyme";
+import { moderateLyrics } from "../../lib/lyrics-moderation";
 
-export async function POST(request: Request) {
-  try {
-    const { summary, mood, language } = await request.json();
-
-    if (!summary || !summary.trim()) {
-      return NextResponse.json(
-        { error: "Summary is required" },
-        { status: 400 }
-      );
-    }
+// Malformed output (no verse or chorus) is regenerated up to this many times in total
+const MAX_GENERATION_ATTEMPTS = 2;
 
-    if (!mood) {
-      return NextResponse.json({ error: "Mood is required" }, { status: 400 });
-    }
+// Lyrics breaking the quality rules go back to the model for targeted fixes
+const MAX_REPAIR_ATTEMPTS = 2;
 
-    const openaiApiKey = process.env.OPENAI_API_KEY;
+interface LyricsRequest {
+  summary: string;
+  mood: string;
+  language: string;
+  // Also repair lines far off the chorus meter
+  fixMeter?: boolean;
+  // The chorus the song will actually use, when it replaces the generated one
+  chorus?: string;
+  // Scheme the verses must rhyme in, e.g. "AABB"
+  rhymeScheme?: string;
+}
 
-    if (!openaiApiKey) {
-      return NextResponse.json(
-        { error: "OpenAI API key is not configured" },
-        { status: 500 }
-      );
-    }
+// Progress of a streamed generation, see POST
+type EmitEvent = (event: string, data: unknown) => void;
 
-    const openai = new OpenAI({
-      apiKey: openaiApiKey,
+/**
+ * One completion; with emit, the text is streamed as 'token' events while it's written
+ */
+async function complete(
+  openai: OpenAI,
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  emit?: EmitEvent
+): Promise<string | undefined> {
+  if (!emit) {
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages,
+      temperature: 0.8,
+      max_tokens: 800,
     });
+    return completion.choices[0]?.message?.content?.trim();
+  }
 
-    // Mood-specific instructions
-    const moodInstructions: Record<string, string> = {
-      upbeat:
-        "Create upbeat, energetic lyrics with a fun, party vibe. Use dynamic, celebratory language.",
-      romantic:
-        "Create romantic, sweet lyrics with tender emotions and affection. Use warm, loving language.",
-      chill:
-        "Create chill, relaxed lyrics with a laid-back, peaceful vibe. Use calm, smooth language.",
-      emotional:
-        "Create emotional, deep lyrics with heartfelt feelings and meaning. Use expressive, touching language.",
-      nostalgic:
-        "Create nostalgic, reflective lyrics that evoke memories and past moments. Use wistful, reminiscent language.",
-      rebellious:
-        "Create rebellious, bold lyrics with edgy confidence and attitude. Use strong, defiant language.",
-    };
+  const stream = await openai.chat.completions.create({
+    model: "gpt-4o-mini",
+    messages,
+    temperature: 0.8,
+    max_tokens: 800,
+    stream: true,
+  });
 
-    const moodInstruction = moodInstructions[mood] || moodInstructions.upbeat;
-    const languageInstruction =
-      language === "ro"
-        ? "Write the lyrics in Romanian with proper diacritics (ă, â, î, ș, ț)."
-        : "Write the lyrics in English.";
+  let text = "";
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      emit("token", { text: delta });
+    }
+  }
+  return text.trim();
+}
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a professional song lyricist specializing in creating structured, memorable lyrics for pop and dance music. ${languageInstruction}
+/**
+ * Generate, validate, repair and moderate lyrics. Returns the response body
+ * and status, the same for the JSON and the streamed response.
+ */
+async function generateLyrics(
+  openai: OpenAI,
+  { summary, mood, language, fixMeter, chorus, rhymeScheme }: LyricsRequest,
+  emit?: EmitEvent
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  // Mood-specific instructions
+  const moodInstructions: Record<string, string> = {
+    upbeat:
+      "Create upbeat, energetic lyrics with a fun, party vibe. Use dynamic, celebratory language.",
+    romantic:
+      "Create romantic, sweet lyrics with tender emotions and affection. Use warm, loving language.",
+    chill:
+      "Create chill, relaxed lyrics with a laid-back, peaceful vibe. Use calm, smooth language.",
+    emotional:
+      "Create emotional, deep lyrics with heartfelt feelings and meaning. Use expressive, touching language.",
+    nostalgic:
+      "Create nostalgic, reflective lyrics that evoke memories and past moments. Use wistful, reminiscent language.",
+    rebellious:
+      "Create rebellious, bold lyrics with edgy confidence and attitude. Use strong, defiant language.",
+  };
+
+  const moodInstruction = moodInstructions[mood] || moodInstructions.upbeat;
+  const languageInstruction =
+    language === "ro"
+      ? "Write the lyrics in Romanian with proper diacritics (ă, â, î, ș, ț)."
+      : "Write the lyrics in English.";
+  const rhymeInstruction = rhymeScheme
+    ? `\n- Every verse must follow the ${rhymeScheme} rhyme scheme`
+    : "";
+
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: `You are a professional song lyricist specializing in creating structured, memorable lyrics for pop and dance music. ${languageInstruction}
 
 Your task is to create complete song lyrics based on a short story summary and specific mood.
 
@@ -66,7 +122,7 @@ STRUCTURE REQUIREMENTS:
 - Each verse should be 4-6 lines
 - Chorus should be 3-5 lines and very catchy/memorable
 - Prechorus should be 2-3 lines building to the chorus
-- Total length: 400-700 characters
+- Total length: 400-700 characters${rhymeInstruction}
 
 CONTENT REQUIREMENTS:
 - ${moodInstruction}
@@ -95,32 +151,224 @@ Line 2
 ...
 
 CRITICAL: Keep it clean, positive, and suitable for all audiences. Focus on the emotions and memories.`,
-        },
-        {
-          role: "user",
-          content: `Create song lyrics with a ${mood} mood based on this story:\n\n${summary}\n\nMood: ${mood}\nLanguage: ${
-            language === "ro" ? "Romanian" : "English"
-          }`,
-        },
+    },
+    {
+      role: "user",
+      content: `Create song lyrics with a ${mood} mood based on this story:\n\n${summary}\n\nMood: ${mood}\nLanguage: ${
+        language === "ro" ? "Romanian" : "English"
+      }`,
+    },
+  ];
+
+  let normalized: ReturnType<typeof normalizeLyrics> | null = null;
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      // The streamed text so far is discarded
+      emit?.("restart", { attempt });
+    }
+
+    const text = await complete(openai, messages, emit);
+    normalized = text ? normalizeLyrics(text) : null;
+
+    if (normalized && !hasLyricsErrors(normalized.issues)) {
+      break;
+    }
+
+    console.warn(
+      `⚠️ Malformed lyrics (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}): ${
+        normalized ? describeLyricsErrors(normalized.issues) : "empty completion"
+      }`
+    );
+  }
+
+  if (!normalized) {
+    return { status: 500, body: { error: "Failed to generate lyrics" } };
+  }
+
+  if (hasLyricsErrors(normalized.issues)) {
+    return {
+      status: 502,
+      body: {
+        error: `Generated lyrics are malformed: ${describeLyricsErrors(normalized.issues)}`,
+        issues: normalized.issues,
+      },
+    };
+  }
+
+  // Check the quality rules and ask for targeted fixes. A repair is kept
+  // only when it's well-formed and breaks fewer rules than before.
+  let draft = normalized;
+  const names = extractNames(summary);
+  const lyricsLanguage = language === "ro" ? "ro" : "en";
+  // A supplied chorus replaces the generated one, so that one needs no repairs
+  const rules: LyricsRules = { ...DEFAULT_LYRICS_RULES, fixedChorus: Boolean(chorus) };
+  if (fixMeter) {
+    rules.meter = {
+      language: lyricsLanguage,
+      targetSyllables: chorus
+        ? analyzeMeter(parseLyrics(chorus).lyrics, lyricsLanguage).targetSyllables
+        : undefined,
+    };
+  }
+  if (rhymeScheme) {
+    rules.rhyme = { language: lyricsLanguage, scheme: rhymeScheme };
+  }
+  const initialViolations = validateLyrics(draft.lyrics, names, rules);
+  let violations = initialViolations;
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && violations.length > 0; attempt++) {
+    emit?.("status", { stage: "repairing" });
+    console.log(
+      `🔧 Repairing lyrics (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}): ${violations
+        .map((violation) => violation.code)
+        .join(", ")}`
+    );
+
+    const repair = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        ...messages,
+        { role: "assistant", content: draft.text },
+        { role: "user", content: buildRepairInstruction(violations) },
       ],
-      temperature: 0.8,
+      temperature: 0.4,
       max_tokens: 800,
     });
 
-    const lyrics = completion.choices[0]?.message?.content?.trim();
+    const text = repair.choices[0]?.message?.content?.trim();
+    const candidate = text ? normalizeLyrics(text) : null;
 
-    if (!lyrics) {
-      return NextResponse.json(
-        { error: "Failed to generate lyrics" },
-        { status: 500 }
-      );
+    if (!candidate || hasLyricsErrors(candidate.issues)) {
+      console.warn(`⚠️ Repair attempt ${attempt} returned malformed lyrics, ignoring it`);
+      continue;
     }
 
-    return NextResponse.json({
+    const candidateViolations = validateLyrics(candidate.lyrics, names, rules);
+    if (candidateViolations.length < violations.length) {
+      draft = candidate;
+      violations = candidateViolations;
+    }
+  }
+
+  if (violations.length > 0) {
+    console.warn(`⚠️ Lyrics still break ${violations.length} rule(s) after repair`);
+  }
+
+  // Same moderation as each option of a queued lyrics job; the closing event
+  // only carries the checked text
+  emit?.("status", { stage: "moderating" });
+  const moderated = await moderateLyrics(draft);
+  if (!moderated) {
+    return { status: 502, body: { error: "Generated lyrics failed moderation" } };
+  }
+
+  // Normalized to Suno's tags; the remaining issues are warnings
+  const lyrics = moderated.text;
+
+  return {
+    status: 200,
+    body: {
       lyrics: lyrics,
       mood: mood,
       language: language,
       length: lyrics.length,
+      issues: moderated.issues,
+      initialViolations, // Rules the first draft broke
+      violations, // Rules still broken after repair
+      moderation: moderated.moderation,
+    },
+  };
+}
+
+/**
+ * Generate lyrics for a story summary and mood.
+ * With `stream: true` in the body the response is Server-Sent Events:
+ * - 'token': { text } the next piece of the first draft as it's written
+ * - 'restart': the draft was malformed and is regenerated, drop the text so far
+ * - 'status': { stage } 'repairing' or 'moderating' the draft
+ * - 'done': the validated and moderated result, same body as without streaming
+ * - 'error': { error, issues? } generation failed
+ * The stream closes after 'done' or 'error'. Only 'done' is safe to show as
+ * selectable lyrics: the streamed draft hasn't been repaired or moderated.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { summary, mood, rhymeScheme } = body;
+
+    if (!summary || !summary.trim()) {
+      return NextResponse.json(
+        { error: "Summary is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!mood) {
+      return NextResponse.json({ error: "Mood is required" }, { status: 400 });
+    }
+
+    if (rhymeScheme !== undefined && (typeof rhymeScheme !== "string" || !isValidRhymeScheme(rhymeScheme))) {
+      return NextResponse.json(
+        { error: "Invalid rhyme scheme, expected e.g. AABB or ABAB" },
+        { status: 400 }
+      );
+    }
+
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+
+    if (!openaiApiKey) {
+      return NextResponse.json(
+        { error: "OpenAI API key is not configured" },
+        { status: 500 }
+      );
+    }
+
+    const openai = new OpenAI({
+      apiKey: openaiApiKey,
+    });
+
+    if (!body.stream) {
+      const result = await generateLyrics(openai, body);
+      return NextResponse.json(result.body, { status: result.status });
+    }
+
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        let closed = false;
+        request.signal.addEventListener("abort", () => {
+          closed = true;
+        });
+
+        const emit: EmitEvent = (event, data) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+
+        try {
+          const result = await generateLyrics(openai, body, emit);
+          emit(result.status === 200 ? "done" : "error", result.body);
+        } catch (error: any) {
+          console.error("Error streaming lyrics:", error);
+          emit("error", { error: error.message || "Failed to generate lyrics" });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
     });
   } catch (error: any) {
     console.error("Error generating lyrics:", error);
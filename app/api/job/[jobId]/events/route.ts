@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobEvents, getJobStatus } from '../../../../lib/queue';
+import { hasJobAccess } from '../../../../lib/job-access';
+
+/**
+ * Lifecycle history of a job, oldest event first.
+ * Events outlive the job record, so this also works for expired jobs (access
+ * tokens are kept as long as the events).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const jobId = params.jobId;
+
+    const events = await hasJobAccess(request, jobId) ? await getJobEvents(jobId) : [];
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const status = await getJobStatus(jobId);
+
+    return NextResponse.json({
+      jobId,
+      status: status?.status ?? null,
+      events,
+    });
+  } catch (error: any) {
+    console.error('Error getting job events:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to get job events' },
+      { status: 500 }
+    );
+  }
+}
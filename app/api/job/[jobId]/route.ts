@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getJobStatus, getJobResult, getRateLimitConfig } from '../../../lib/queue';
+import { cancelJob } from '../../../lib/queue';
+import { getJobStatusView } from '../../../lib/job-status';
+import { hasJobAccess } from '../../../lib/job-access';
 
 export async function GET(
   request: NextRequest,
@@ -15,76 +17,72 @@ export async function GET(
       );
     }
 
-    const status = await getJobStatus(jobId);
+    const response = await hasJobAccess(request, jobId) ? await getJobStatusView(jobId) : null;
 
-    if (!status) {
+    if (!response) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
       );
     }
 
-    // Get rate limit config for wait time calculation
-    const rateLimitConfig = getRateLimitConfig();
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error('Error getting job status:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to get job status' },
+      { status: 500 }
+    );
+  }
+}
 
-    let response: any = {
-      jobId: status.id,
-      status: status.status,
-      type: status.type,
-      createdAt: status.createdAt,
-      attempts: status.attempts,
-      maxRetries: 3,
-    };
+/**
+ * Cancel a job. Requires the job's access token, like reading its status.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const jobId = params.jobId;
 
-    if (status.status === 'completed') {
-      const result = await getJobResult(jobId);
-      response.result = result;
+    if (!(await hasJobAccess(request, jobId))) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
     }
 
-    if (status.status === 'failed') {
-      response.error = status.error || 'Job failed';
-      if (status.attempts >= 3) {
-        response.message = `Generation failed after ${status.attempts} attempts. Please try a fresh generation with different settings or try again later.`;
-      } else {
-        response.message = `Failed: ${status.error}`;
-      }
-    }
+    const cancellation = await cancelJob(jobId);
 
-    if (status.status === 'pending') {
-      // Include queue position for pending jobs
-      response.queuePosition = (status as any).queuePosition;
-      
-      // Show retry info if this is a retry
-      if (status.attempts > 0) {
-        response.message = `Retrying... (attempt ${status.attempts + 1}/3)`;
-      } else {
-        // Estimate wait time based on queue position and cron interval
-        // Cron runs every 60s in production, processing up to maxRequests jobs per run
-        // Formula: ceil(position / maxRequests) * 60s
-        if (response.queuePosition) {
-          const cronIntervalSeconds = 60; // Vercel cron minimum interval
-          const estimatedWaitSeconds = Math.ceil(response.queuePosition / rateLimitConfig.maxRequests) * cronIntervalSeconds;
-          response.estimatedWaitSeconds = estimatedWaitSeconds;
-          response.message = `Your music is in the queue at position ${response.queuePosition}. Estimated wait: ${estimatedWaitSeconds}s`;
-        } else {
-          response.message = 'Job is in the queue and will be processed soon...';
-        }
-      }
+    if (!cancellation) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
     }
 
-    if (status.status === 'processing') {
-      if (status.attempts > 1) {
-        response.message = `Creating your music... (retry ${status.attempts}/3)`;
-      } else {
-        response.message = 'Your music is being created right now! 🎵';
-      }
+    if (cancellation.outcome === 'already_finished') {
+      return NextResponse.json(
+        {
+          error: `Job already ${cancellation.job.status}`,
+          jobId,
+          status: cancellation.job.status,
+        },
+        { status: 409 }
+      );
     }
 
-    return NextResponse.json(response);
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: cancellation.outcome === 'cancelled' ? 'cancelled' : 'processing',
+      cancelRequested: cancellation.outcome === 'cancel_requested',
+    });
   } catch (error: any) {
-    console.error('Error getting job status:', error);
+    console.error('Error cancelling job:', error);
     return NextResponse.json(
-      { error: error.message || 'Failed to get job status' },
+      { error: error.message || 'Failed to cancel job' },
       { status: 500 }
     );
   }
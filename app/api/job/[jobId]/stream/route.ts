@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobEventCount } from '../../../../lib/queue';
+import { getJobStatusView } from '../../../../lib/job-status';
+import { hasJobAccess } from '../../../../lib/job-access';
+
+export const dynamic = 'force-dynamic';
+
+// Longest the function may run on Vercel; the browser reconnects after that
+export const maxDuration = 60;
+
+// The stream watches the job's event log (one cheap read) and only rebuilds the
+// status when it changed. Queue position and wait estimate move without job
+// events, so the status is also refreshed on a slower schedule.
+const changeCheckIntervalMs = 2000;
+const refreshIntervalMs = 10000;
+const keepAliveIntervalMs = 15000;
+const streamDurationMs = (maxDuration - 5) * 1000;
+
+// Sent to EventSource: how long to wait before reconnecting
+const reconnectDelayMs = 2000;
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Push job status over Server-Sent Events
+ * Events (data is the same payload as GET /api/job/[jobId]):
+ * - 'status': status, queue position, wait estimate or message changed
+ * - 'preview': stream URLs are ready, full quality still generating
+ * - 'completed' | 'failed' | 'cancelled': terminal, the stream closes after it
+ * A stream that hits the time limit closes without a terminal event and the
+ * browser reconnects on its own.
+ * EventSource can't send headers, so the access token comes as ?token=.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  const jobId = params.jobId;
+
+  const initial = await hasJobAccess(request, jobId) ? await getJobStatusView(jobId) : null;
+
+  if (!initial) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+      });
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      let lastPayload = '';
+      let lastStage: string | undefined;
+      let lastSentAt = Date.now();
+
+      // Send the status if it changed; returns whether the job is finished
+      const publish = (view: any): boolean => {
+        const payload = JSON.stringify(view);
+        if (payload !== lastPayload) {
+          const stage = view.result?.stage;
+          const event = TERMINAL_STATUSES.includes(view.status)
+            ? view.status
+            : stage === 'stream' && lastStage !== 'stream'
+              ? 'preview'
+              : 'status';
+
+          write(`event: ${event}\ndata: ${payload}\n\n`);
+          lastPayload = payload;
+          lastStage = stage;
+          lastSentAt = Date.now();
+        }
+        return TERMINAL_STATUSES.includes(view.status);
+      };
+
+      try {
+        write(`retry: ${reconnectDelayMs}\n\n`);
+
+        const deadline = Date.now() + streamDurationMs;
+        let finished = publish(initial);
+        let eventCount = await getJobEventCount(jobId);
+        let refreshedAt = Date.now();
+
+        while (!finished && !closed && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, changeCheckIntervalMs));
+          if (closed) {
+            break;
+          }
+
+          const count = await getJobEventCount(jobId);
+          if (count !== eventCount || Date.now() - refreshedAt >= refreshIntervalMs) {
+            eventCount = count;
+            refreshedAt = Date.now();
+
+            const view = await getJobStatusView(jobId);
+            if (!view) {
+              // The job record expired while we were watching
+              finished = publish({ jobId, status: 'failed', error: 'Job not found' });
+              break;
+            }
+            finished = publish(view);
+          }
+
+          if (Date.now() - lastSentAt >= keepAliveIntervalMs) {
+            write(': keep-alive\n\n');
+            lastSentAt = Date.now();
+          }
+        }
+      } catch (error) {
+        console.error(`Error streaming job ${jobId}:`, error);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
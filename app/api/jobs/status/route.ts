@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasJobsAccess } from '../../../lib/job-access';
+import { getJobStatusViews } from '../../../lib/job-status';
+
+// Most job ids a single request may ask about
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Statuses of several jobs in one request
+ * Body: { jobs: Array<{ jobId: string, token?: string }> }, token being the
+ * access token returned when the job was enqueued; the session that enqueued
+ * a job may leave it out. Jobs the request may not read come back as not
+ * found, same as unknown ids.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobs } = body;
+
+    if (
+      !Array.isArray(jobs) ||
+      jobs.length === 0 ||
+      !jobs.every(
+        (job) =>
+          job && typeof job.jobId === 'string' && (job.token === undefined || typeof job.token === 'string')
+      )
+    ) {
+      return NextResponse.json(
+        { error: 'jobs must be a non-empty array of { jobId, token? }' },
+        { status: 400 }
+      );
+    }
+
+    // One token per job id; a repeated id keeps the first token
+    const tokens = new Map<string, string | undefined>();
+    for (const { jobId, token } of jobs) {
+      if (!tokens.has(jobId)) {
+        tokens.set(jobId, token);
+      }
+    }
+    const uniqueJobIds = Array.from(tokens.keys());
+
+    if (uniqueJobIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} jobs per request` },
+        { status: 400 }
+      );
+    }
+
+    const granted = await hasJobsAccess(
+      request,
+      uniqueJobIds.map((jobId) => ({ jobId, accessToken: tokens.get(jobId) }))
+    );
+    const allowedJobIds = uniqueJobIds.filter((_, index) => granted[index]);
+    const views = allowedJobIds.length > 0 ? await getJobStatusViews(allowedJobIds) : [];
+    const viewsById = new Map(allowedJobIds.map((jobId, index) => [jobId, views[index]]));
+
+    return NextResponse.json({
+      jobs: uniqueJobIds.map((jobId) => viewsById.get(jobId) ?? { jobId, error: 'Job not found' }),
+    });
+  } catch (error: any) {
+    console.error('Error getting job statuses:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to get job statuses' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { enqueueJob } from '../../../lib/queue';
+import { enqueueJob, QuotaExceededError } from '../../../lib/queue';
+import { getSession } from '../../../lib/session';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    const { story, moods, userId } = body;
+    const { story, moods } = body;
 
     if (!story || !story.trim()) {
       return NextResponse.json(
@@ -14,22 +15,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The user is whoever the session cookie says, never a userId from the body
+    const session = await getSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session required' },
+        { status: 401 }
+      );
+    }
+
     // Enqueue lyrics generation job
-    const jobId = await enqueueJob({
-      userId: userId || 'anonymous',
+    const { jobId, duplicate, accessToken } = await enqueueJob({
+      userId: session.userId,
       type: 'lyrics',
       payload: {
         story,
         moods: moods || [],
       },
+    }, {
+      idempotencyKey: request.headers.get('idempotency-key') || undefined,
     });
 
     return NextResponse.json({
       success: true,
       jobId,
+      duplicate,
+      accessToken, // Required to read, watch or cancel the job
       message: 'Lyrics generation job enqueued. Check status with /api/job/{jobId}',
     });
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'QUOTA_EXCEEDED',
+          limit: error.limit,
+          max: error.max,
+          retryAfterSeconds: error.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(error.retryAfterSeconds) },
+        }
+      );
+    }
+
     console.error('Error enqueuing lyrics job:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to enqueue lyrics job' },
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { enqueueJob } from '../../../lib/queue';
+import { enqueueJob, QuotaExceededError } from '../../../lib/queue';
+import { isSunoEndpoint } from '../../../lib/suno';
+import { getSession } from '../../../lib/session';
+import { describeLyricsErrors, hasLyricsErrors, normalizeLyrics } from '../../../lib/lyrics';
+
+// Largest display object (serialized) a job may carry
+const MAX_DISPLAY_LENGTH = 10000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,7 +14,7 @@ export async function POST(request: NextRequest) {
     const {
       endpoint,
       requestBody,
-      userId,
+      display,
     } = body;
 
     if (!endpoint || !endpoint.trim()) {
@@ -18,6 +24,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The worker calls the endpoint with our Suno key, so it must be a Suno endpoint
+    if (!isSunoEndpoint(endpoint)) {
+      return NextResponse.json(
+        { error: 'Endpoint must be a Suno API endpoint' },
+        { status: 400 }
+      );
+    }
+
     if (!requestBody) {
       return NextResponse.json(
         { error: 'Request body is required' },
@@ -25,22 +39,84 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // In custom mode the prompt is the lyrics Suno sings: check their structure
+    // before a generation is paid for, and send them with Suno's tags
+    let sunoRequestBody = requestBody;
+    if (requestBody.customMode && !requestBody.instrumental) {
+      const lyrics = normalizeLyrics(String(requestBody.prompt || ''));
+
+      if (hasLyricsErrors(lyrics.issues)) {
+        return NextResponse.json(
+          {
+            error: `Lyrics are malformed: ${describeLyricsErrors(lyrics.issues)}`,
+            issues: lyrics.issues,
+          },
+          { status: 400 }
+        );
+      }
+
+      sunoRequestBody = { ...requestBody, prompt: lyrics.text };
+    }
+
+    // What the client needs to show the job again after a refresh or on
+    // another device (e.g. { musicData, lyrics }); returned with the job status
+    if (
+      display !== undefined &&
+      (typeof display !== 'object' || display === null || JSON.stringify(display).length > MAX_DISPLAY_LENGTH)
+    ) {
+      return NextResponse.json(
+        { error: `Display must be an object of at most ${MAX_DISPLAY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // The user is whoever the session cookie says, never a userId from the body
+    const session = await getSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session required' },
+        { status: 401 }
+      );
+    }
+
     // Enqueue music generation job
-    const jobId = await enqueueJob({
-      userId: userId || 'anonymous',
+    const { jobId, duplicate, accessToken } = await enqueueJob({
+      userId: session.userId,
       type: 'music',
       payload: {
         endpoint,
-        requestBody,
+        requestBody: sunoRequestBody,
+        display,
       },
+    }, {
+      idempotencyKey: request.headers.get('idempotency-key') || undefined,
     });
 
     return NextResponse.json({
       success: true,
       jobId,
+      duplicate,
+      accessToken, // Required to read, watch or cancel the job
       message: 'Music generation job enqueued. Check status with /api/job/{jobId}',
     });
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'QUOTA_EXCEEDED',
+          limit: error.limit,
+          max: error.max,
+          retryAfterSeconds: error.retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(error.retryAfterSeconds) },
+        }
+      );
+    }
+
     console.error('Error enqueuing music job:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to enqueue music job' },
@@ -1,6 +1,8 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import type { JobEta } from '../lib/job-metrics'
+import ShareJobLink from './ShareJobLink'
 
 interface LoaderProps {
   message?: string
@@ -10,57 +12,51 @@ interface LoaderProps {
     message?: string;
     attempts?: number;
     maxRetries?: number;
+    eta?: JobEta;
   }
+  onCancel?: () => void
+  shareUrl?: string | null
 }
 
 export default function Loader({ 
   message = 'Creăm muzica ta ING... te rugăm așteaptă 🎧',
-  queueStatus 
+  queueStatus,
+  onCancel,
+  shareUrl
 }: LoaderProps) {
   const [elapsedTime, setElapsedTime] = useState(0);
-  const [estimatedProgress, setEstimatedProgress] = useState(0);
+  const [etaReceivedAt, setEtaReceivedAt] = useState(Date.now());
 
   useEffect(() => {
     const startTime = Date.now();
     
     const interval = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      setElapsedTime(elapsed);
-      
-      // Estimate progress based on actual Suno API streaming behavior:
-      // PHASE 1: Stream preview ready at ~20-30s (fast playback)
-      // PHASE 2: Full quality ready at ~2-5 minutes (full download)
-      // Progress curve optimized for two-phase delivery
-      let progress = 0;
-      if (elapsed < 10) {
-        // 0-10s: Initialization (0-20%)
-        progress = (elapsed / 10) * 20;
-      } else if (elapsed < 25) {
-        // 10-25s: Preparing stream preview (20-60%)
-        progress = 20 + ((elapsed - 10) / 15) * 40;
-      } else if (elapsed < 35) {
-        // 25-35s: Stream preview ready! (60-70%)
-        progress = 60 + ((elapsed - 25) / 10) * 10;
-      } else if (elapsed < 90) {
-        // 35-90s: Full quality generation starts (70-80%)
-        progress = 70 + ((elapsed - 35) / 55) * 10;
-      } else if (elapsed < 180) {
-        // 90-180s: Generating full quality audio (80-90%)
-        progress = 80 + ((elapsed - 90) / 90) * 10;
-      } else if (elapsed < 300) {
-        // 180-300s: Finalizing full quality (90-95%)
-        progress = 90 + ((elapsed - 180) / 120) * 5;
-      } else {
-        // 300s+: Almost complete (95-98%)
-        progress = 95 + Math.min(((elapsed - 300) / 60) * 3, 3);
-      }
-      
-      setEstimatedProgress(Math.min(progress, 98)); // Cap at 98% until complete
+      setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
     }, 500); // Update every 500ms
 
     return () => clearInterval(interval);
   }, []);
 
+  // The ETAs are as of the latest status update and count down until the next one
+  const eta = queueStatus?.eta;
+  useEffect(() => {
+    setEtaReceivedAt(Date.now());
+  }, [eta]);
+
+  const sinceEta = (Date.now() - etaReceivedAt) / 1000;
+  const countDown = (seconds?: number) =>
+    seconds === undefined ? undefined : Math.max(Math.ceil(seconds - sinceEta), 0);
+
+  const queueRemaining = countDown(eta?.queueWaitSeconds);
+  const streamRemaining = countDown(eta?.streamPreviewSeconds);
+  const fullRemaining = countDown(eta?.fullQualitySeconds);
+
+  // Progress is the share of the expected total time that has passed. Without
+  // an estimate yet, creep up to 10% while the first status arrives.
+  const estimatedProgress = fullRemaining === undefined
+    ? Math.min(elapsedTime, 10)
+    : Math.min((elapsedTime / Math.max(elapsedTime + fullRemaining, 1)) * 100, 98); // Cap at 98% until complete
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -68,12 +64,12 @@ export default function Loader({
   };
 
   const getStatusMessage = () => {
-    if (elapsedTime < 10) return "Inițializăm generarea muzicii ING...";
-    if (elapsedTime < 25) return "Pregătim previzualizarea...";
-    if (elapsedTime < 35) return "🎧 Previzualizare aproape gata!";
-    if (elapsedTime < 90) return "Previzualizare gata! Generăm calitate înaltă...";
-    if (elapsedTime < 180) return "Creăm audio de calitate înaltă...";
-    if (elapsedTime < 300) return "Finalizăm descărcarea de calitate înaltă...";
+    if (fullRemaining === undefined) return "Inițializăm generarea muzicii ING...";
+    if (queueRemaining) return "Așteptăm să înceapă generarea...";
+    if (eta?.streamPreviewSeconds === 0 && fullRemaining > 0) return "Previzualizare gata! Generăm calitate înaltă...";
+    if (streamRemaining) return `Pregătim previzualizarea... (~${formatTime(streamRemaining)})`;
+    if (streamRemaining === 0) return "🎧 Previzualizare aproape gata!";
+    if (fullRemaining > 0) return "Creăm audio de calitate înaltă...";
     return "Aproape gata...";
   };
 
@@ -178,7 +174,10 @@ export default function Loader({
         {/* Progress percentage and time */}
         <div className="flex justify-between items-center mt-3 text-ing-dark text-sm">
           <span className="font-medium">{Math.floor(estimatedProgress)}%</span>
-          <span className="font-mono">{formatTime(elapsedTime)}</span>
+          <span className="font-mono">
+            {formatTime(elapsedTime)}
+            {fullRemaining ? ` / ~${formatTime(elapsedTime + fullRemaining)}` : ''}
+          </span>
         </div>
         
         {/* Status message */}
@@ -193,6 +192,19 @@ export default function Loader({
         <div className="w-3 h-3 bg-ing-orange rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
         <div className="w-3 h-3 bg-ing-orange rounded-full animate-bounce" style={{ animationDelay: '0.4s' }}></div>
       </div>
+
+      {/* Cancel generation */}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-8 text-ing-text hover:text-ing-orange text-sm font-medium underline underline-offset-4 transition-colors"
+        >
+          Anulează generarea
+        </button>
+      )}
+
+      {/* Follow the generation from another tab or device */}
+      {shareUrl && <ShareJobLink url={shareUrl} />}
     </div>
   )
 }
@@ -1,14 +1,22 @@
 "use client";
 
 import React from "react";
+import RhymeSchemeSummary from "./RhymeSchemeSummary";
 
 interface LyricsOption {
   text: string;
   title: string;
-  status: string;
+  status: string; // 'complete', 'failed', or while streaming 'streaming' | 'repairing' | 'moderating'
   errorMessage?: string;
 }
 
+// Shown under a draft that is still being written or checked
+const streamingLabels: Record<string, string> = {
+  streaming: "✍️ Writing...",
+  repairing: "🔧 Polishing...",
+  moderating: "🛡️ Checking...",
+};
+
 interface LyricsSelectionProps {
   options: LyricsOption[];
   onSelect: (selectedLyrics: string) => void;
@@ -53,8 +61,8 @@ export default function LyricsSelection({
               )
               : (
                 <span>
-                  We've created <span className="font-semibold text-ing-orange">{totalExpected} unique versions</span> of your story. 
-                  <span className="block mt-1 text-sm">Pick your favorite and let's make some music! 🎶</span>
+                  We&apos;ve created <span className="font-semibold text-ing-orange">{totalExpected} unique versions</span> of your story. 
+                  <span className="block mt-1 text-sm">Pick your favorite and let&apos;s make some music! 🎶</span>
                 </span>
               )
             }
@@ -80,7 +88,9 @@ export default function LyricsSelection({
                       {option.title || `Version ${index + 1}`}
                     </h3>
                     <span className="text-xs text-gray-500">
-                      {option.status === "complete" ? "✓ Ready to use" : "⚠ Generation failed"}
+                      {option.status === "complete"
+                        ? "✓ Ready to use"
+                        : streamingLabels[option.status] ?? "⚠ Generation failed"}
                     </span>
                   </div>
                 </div>
@@ -93,8 +103,16 @@ export default function LyricsSelection({
                 </button>
               </div>
 
-              {option.status === "complete" ? (
+              {streamingLabels[option.status] ? (
+                <div className="bg-gradient-to-br from-gray-50 to-white rounded-lg p-4 border border-dashed border-ing-orange/30">
+                  <pre className="whitespace-pre-wrap text-sm text-gray-500 font-mono leading-relaxed">
+                    {option.text}
+                    <span className="animate-pulse">▍</span>
+                  </pre>
+                </div>
+              ) : option.status === "complete" ? (
                 <div className="bg-gradient-to-br from-gray-50 to-white rounded-lg p-4 border border-gray-200 group-hover:border-ing-orange/30 transition-colors">
+                  <RhymeSchemeSummary lyrics={option.text} />
                   <pre className="whitespace-pre-wrap text-sm text-gray-700 font-mono leading-relaxed">
                     {option.text}
                   </pre>
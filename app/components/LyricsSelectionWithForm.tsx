@@ -1,14 +1,25 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { hasLyricsErrors, normalizeLyrics, parseLyrics } from "../lib/lyrics";
+import { SUNO_PROMPT_MAX_LENGTH } from "../lib/lyrics-validator";
+import { analyzeMeter, detectLyricsLanguage } from "../lib/lyrics-meter";
+import RhymeSchemeSummary from "./RhymeSchemeSummary";
 
 interface LyricsOption {
   text: string;
   title: string;
-  status: string;
+  status: string; // 'complete', 'failed', or while streaming 'streaming' | 'repairing' | 'moderating'
   errorMessage?: string;
 }
 
+// Shown under a draft that is still being written or checked
+const streamingLabels: Record<string, string> = {
+  streaming: "✍️ Scriem versurile...",
+  repairing: "🔧 Șlefuim versurile...",
+  moderating: "🛡️ Verificăm versurile...",
+};
+
 interface MusicFormData {
   genre: string;
   vocalType: "male" | "female" | "duet";
@@ -108,6 +119,15 @@ export default function LyricsSelectionWithForm({
   const [isEditingLyrics, setIsEditingLyrics] = useState(false);
   const [editedLyrics, setEditedLyrics] = useState<string>("");
 
+  // Structure of the lyrics being edited; errors (no verse or chorus) block saving
+  const editedStructure = useMemo(() => parseLyrics(editedLyrics), [editedLyrics]);
+  const editedHasErrors = hasLyricsErrors(editedStructure.issues);
+  // Syllables per line against the chorus, so lines that won't sing well stand out
+  const editedMeter = useMemo(
+    () => analyzeMeter(editedStructure.lyrics, detectLyricsLanguage(editedLyrics)),
+    [editedStructure, editedLyrics]
+  );
+
   // AI genre recommendation based on lyrics
   const recommendGenre = (lyrics: string) => {
     setIsRecommending(true);
@@ -200,10 +220,15 @@ export default function LyricsSelectionWithForm({
   };
 
   const handleSaveEditedLyrics = () => {
-    setSelectedLyrics(editedLyrics);
+    const normalized = normalizeLyrics(editedLyrics);
+    if (hasLyricsErrors(normalized.issues)) return;
+
+    // Save with Suno's section tags, whatever variants were typed
+    setSelectedLyrics(normalized.text);
+    setEditedLyrics(normalized.text);
     setIsEditingLyrics(false);
     // Update genre recommendation based on edited lyrics
-    recommendGenre(editedLyrics);
+    recommendGenre(normalized.text);
   };
 
   const handleCancelEdit = () => {
@@ -248,8 +273,8 @@ export default function LyricsSelectionWithForm({
           </p>
         </div>
 
-        {/* Loading State during ReTwist */}
-        {isLoading && (
+        {/* Loading State during ReTwist, until the first drafts stream in */}
+        {isLoading && options.length === 0 && (
           <div className="text-center py-12">
             <div className="spinner w-16 h-16 mx-auto mb-4"></div>
             <p className="text-xl text-ing-orange font-semibold">
@@ -262,8 +287,8 @@ export default function LyricsSelectionWithForm({
         )}
 
         <form onSubmit={handleSubmit}>
-          {/* Lyrics Options */}
-          {!isLoading && (
+          {/* Lyrics Options - drafts render as they stream, selectable once complete */}
+          {options.length > 0 && (
             <div className="space-y-6 mb-8">
               {options.map((option, index) => {
                 const isSelected = Boolean(
@@ -328,8 +353,19 @@ export default function LyricsSelectionWithForm({
                       </div>
                     </div>
 
-                    {option.status === "complete" ? (
+                    {streamingLabels[option.status] ? (
                       <div className="bg-gray-50 rounded-lg p-4 ml-8">
+                        <p className="text-xs text-ing-orange font-semibold mb-2 animate-pulse">
+                          {streamingLabels[option.status]}
+                        </p>
+                        <pre className="whitespace-pre-wrap text-sm text-gray-500 font-mono max-h-60 overflow-y-auto">
+                          {option.text}
+                          <span className="animate-pulse">▍</span>
+                        </pre>
+                      </div>
+                    ) : option.status === "complete" ? (
+                      <div className="bg-gray-50 rounded-lg p-4 ml-8">
+                        <RhymeSchemeSummary lyrics={isSelected ? selectedLyrics : option.text} />
                         <pre className="whitespace-pre-wrap text-sm text-gray-700 font-mono max-h-60 overflow-y-auto">
                           {isSelected ? selectedLyrics : option.text}
                         </pre>
@@ -353,7 +389,7 @@ export default function LyricsSelectionWithForm({
                   ✏️ Edit Your Lyrics
                 </h3>
                 <p className="text-sm md:text-base text-gray-600">
-                  Customize the lyrics to make them perfect (max 3000
+                  Customize the lyrics to make them perfect (max {SUNO_PROMPT_MAX_LENGTH}
                   characters)
                 </p>
               </div>
@@ -364,29 +400,91 @@ export default function LyricsSelectionWithForm({
                   onChange={(e) => setEditedLyrics(e.target.value)}
                   className="w-full min-h-[200px] md:min-h-[300px] p-3 md:p-4 rounded-lg border-2 border-gray-300 focus:border-ing-orange focus:outline-none transition-all font-mono text-xs md:text-sm"
                   placeholder="Edit your lyrics here..."
-                  maxLength={3000}
+                  maxLength={SUNO_PROMPT_MAX_LENGTH}
                 />
 
                 {/* Character Counter */}
                 <div className="flex items-center justify-between mt-2">
                   <div
                     className={`text-sm font-semibold ${
-                      editedLyrics.length > 3000
+                      editedLyrics.length > SUNO_PROMPT_MAX_LENGTH
                         ? "text-red-500"
-                        : editedLyrics.length > 2700
+                        : editedLyrics.length > SUNO_PROMPT_MAX_LENGTH * 0.9
                         ? "text-orange-500"
                         : "text-gray-600"
                     }`}
                   >
-                    {editedLyrics.length} / 3000 characters
-                    {editedLyrics.length > 3000 && (
+                    {editedLyrics.length} / {SUNO_PROMPT_MAX_LENGTH} characters
+                    {editedLyrics.length > SUNO_PROMPT_MAX_LENGTH && (
                       <span className="ml-2 text-red-500">
-                        ({editedLyrics.length - 3000} over limit!)
+                        ({editedLyrics.length - SUNO_PROMPT_MAX_LENGTH} over limit!)
                       </span>
                     )}
                   </div>
+                  <div className="text-xs text-gray-500">
+                    {editedStructure.lyrics.sections
+                      .filter((section) => section.lines.length > 0)
+                      .map((section) => section.label)
+                      .join(" · ")}
+                  </div>
                 </div>
 
+                {/* Structure problems: errors block saving, warnings are fixed on save */}
+                {editedStructure.issues.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs md:text-sm">
+                    {editedStructure.issues.map((issue, index) => (
+                      <li
+                        key={index}
+                        className={issue.severity === "error" ? "text-red-500 font-semibold" : "text-orange-500"}
+                      >
+                        {issue.severity === "error" ? "❌" : "⚠️"} {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Meter: syllables per line, off-meter lines highlighted */}
+                {editedMeter.targetSyllables !== undefined && (
+                  <div className="mt-4 bg-gray-50 rounded-lg p-3 md:p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs md:text-sm text-gray-600">
+                      <span className="font-semibold text-ing-dark">
+                        🎼 Metrică: ~{editedMeter.targetSyllables} silabe pe vers
+                      </span>
+                      {editedMeter.verseConsistency !== undefined && (
+                        <span>
+                          Strofe consecvente: {Math.round(editedMeter.verseConsistency * 100)}%
+                        </span>
+                      )}
+                    </div>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {editedMeter.sections
+                        .filter((section) => section.lines.length > 0)
+                        .map((section, sectionIndex) => (
+                          <div key={sectionIndex}>
+                            <div className="text-xs font-semibold text-gray-500">[{section.tag}]</div>
+                            {section.lines.map((line, lineIndex) => (
+                              <div
+                                key={lineIndex}
+                                className={`flex items-center gap-2 font-mono text-xs ${
+                                  line.offMeter ? "text-orange-600 font-semibold" : "text-gray-700"
+                                }`}
+                              >
+                                <span
+                                  className={`inline-block w-7 text-center rounded-full ${
+                                    line.offMeter ? "bg-orange-100" : "bg-gray-200"
+                                  }`}
+                                >
+                                  {line.syllables}
+                                </span>
+                                <span className="truncate">{line.text}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex flex-col sm:flex-row gap-3 mt-4 sm:justify-end">
                   <button
                     type="button"
@@ -398,7 +496,8 @@ export default function LyricsSelectionWithForm({
                   <button
                     type="button"
                     onClick={handleSaveEditedLyrics}
-                    className="bg-ing-orange hover:bg-ing-darkOrange text-white font-semibold py-2 px-6 rounded-lg transition-all w-full sm:w-auto"
+                    disabled={editedHasErrors}
+                    className="bg-ing-orange hover:bg-ing-darkOrange text-white font-semibold py-2 px-6 rounded-lg transition-all w-full sm:w-auto disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Salvează Modificările
                   </button>
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useRef, useEffect } from 'react'
+import ShareJobLink from './ShareJobLink'
 
 interface Track {
   id: string
@@ -17,12 +18,13 @@ interface Track {
 interface PreviewPlayerProps {
   tracks: Track[]
   message?: string
+  shareUrl?: string | null
 }
 
 // Global reference to currently playing audio element
 let currentlyPlaying: HTMLAudioElement | null = null;
 
-export default function PreviewPlayer({ tracks, message }: PreviewPlayerProps) {
+export default function PreviewPlayer({ tracks, message, shareUrl }: PreviewPlayerProps) {
   const audioRefs = useRef<(HTMLAudioElement | null)[]>([]);
 
   useEffect(() => {
@@ -169,6 +171,8 @@ export default function PreviewPlayer({ tracks, message }: PreviewPlayerProps) {
         </div>
         <span className="text-ing-text/70 text-sm">Se generează calitate înaltă...</span>
       </div>
+
+      {shareUrl && <ShareJobLink url={shareUrl} />}
     </div>
   )
 }
@@ -0,0 +1,51 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { parseLyrics } from '../lib/lyrics'
+import { detectLyricsLanguage } from '../lib/lyrics-meter'
+import { analyzeRhyme } from '../lib/lyrics-rhyme'
+
+interface RhymeSchemeSummaryProps {
+  lyrics: string
+}
+
+// Detected rhyme scheme of each section, shown on the lyrics option cards
+export default function RhymeSchemeSummary({ lyrics }: RhymeSchemeSummaryProps) {
+  const sections = useMemo(
+    () =>
+      analyzeRhyme(parseLyrics(lyrics).lyrics, detectLyricsLanguage(lyrics)).sections.filter(
+        (section) => section.lines.length >= 2
+      ),
+    [lyrics]
+  );
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+      <span className="text-gray-500 font-semibold">🎯 Rimă:</span>
+      {sections.map((section, index) => {
+        const breaking = section.lines.filter((line) => line.breaksScheme);
+
+        return (
+          <span
+            key={index}
+            title={
+              breaking.length > 0
+                ? `Nu rimează (${section.followedScheme}): ${breaking.map((line) => line.text).join(' / ')}`
+                : undefined
+            }
+            className={`px-2 py-0.5 rounded-full font-mono ${
+              breaking.length > 0 ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            {section.tag} {section.scheme}
+            {breaking.length > 0 && ` ⚠️ ${breaking.length}`}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client'
+
+import React, { useState } from 'react'
+
+interface ShareJobLinkProps {
+  url: string
+}
+
+// Copies the link that opens the running generation in another tab or device
+export default function ShareJobLink({ url }: ShareJobLinkProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('⚠️ Failed to copy job link:', error);
+      window.prompt('Copiază linkul:', url);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="mt-4 text-ing-text hover:text-ing-orange text-sm font-medium underline underline-offset-4 transition-colors"
+    >
+      {copied ? '✅ Link copiat!' : '🔗 Copiază linkul pentru alt dispozitiv'}
+    </button>
+  );
+}
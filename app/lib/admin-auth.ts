@@ -0,0 +1,20 @@
+/**
+ * Admin route authentication
+ * Admin routes expect `Authorization: Bearer ${ADMIN_SECRET}`
+ */
+
+import { NextRequest } from 'next/server';
+
+/**
+ * Check whether the request carries the admin secret
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminSecret = process.env.ADMIN_SECRET;
+
+  if (!adminSecret) {
+    console.error('❌ ADMIN_SECRET is not configured, rejecting admin request');
+    return false;
+  }
+
+  return request.headers.get('authorization') === `Bearer ${adminSecret}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Suno callback authentication
+ * Every callback URL we hand to Suno carries a per-job token:
+ * `?jobId=…&expires=…&signature=HMAC-SHA256(CALLBACK_SIGNING_SECRET, jobId:expires)`.
+ * Suno assigns the task id only after the request, so the task is bound on
+ * arrival instead: the task id in the callback body must be the task we
+ * started for that job.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import {
+  claimCallbackDelivery,
+  findJobIdByTaskId,
+  recordRejectedCallback,
+  releaseCallbackDelivery,
+} from './queue';
+
+// How long a callback URL stays valid; must outlast the slowest Suno task
+const callbackTokenTtlSeconds = parseInt(process.env.CALLBACK_TOKEN_TTL_SECONDS || '7200', 10);
+
+export type CallbackRejectionReason =
+  | 'missing_token'
+  | 'expired_token'
+  | 'invalid_signature'
+  | 'missing_task_id'
+  | 'task_mismatch'
+  | 'replay';
+
+export type CallbackAuthResult =
+  // release: give the delivery back when processing it fails, so Suno's retry is accepted
+  | { ok: true; jobId: string; taskId: string; release: () => Promise<void> }
+  | { ok: false; reason: CallbackRejectionReason };
+
+function getSigningSecret(): string {
+  const secret = process.env.CALLBACK_SIGNING_SECRET;
+
+  if (!secret) {
+    throw new Error('CALLBACK_SIGNING_SECRET is not configured');
+  }
+
+  return secret;
+}
+
+function sign(jobId: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${jobId}:${expires}`).digest('hex');
+}
+
+/**
+ * Public base URL Suno can reach us at
+ */
+function getCallbackBaseUrl(): string {
+  if (process.env.CALLBACK_BASE_URL) {
+    return process.env.CALLBACK_BASE_URL;
+  }
+
+  return process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001';
+}
+
+/**
+ * Build a signed callback URL for a job, e.g. createCallbackUrl('/api/callback', job.id)
+ */
+export function createCallbackUrl(path: string, jobId: string): string {
+  const expires = Math.floor(Date.now() / 1000) + callbackTokenTtlSeconds;
+  const url = new URL(path, getCallbackBaseUrl());
+
+  url.searchParams.set('jobId', jobId);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', sign(jobId, expires));
+
+  return url.toString();
+}
+
+/**
+ * Verify a callback's token and task, and accept each callback type only once
+ * per token. Rejected attempts are logged. A handler that fails after this
+ * must call release() before answering with an error.
+ */
+export async function authenticateCallback(request: NextRequest, body: any): Promise<CallbackAuthResult> {
+  const { searchParams, pathname } = new URL(request.url);
+  const jobId = searchParams.get('jobId') || undefined;
+  const expires = Number(searchParams.get('expires'));
+  const signature = searchParams.get('signature') || '';
+  const taskId = body?.data?.task_id || body?.data?.taskId || undefined;
+  const callbackType = body?.data?.callbackType || 'unknown';
+  const now = Math.floor(Date.now() / 1000);
+
+  const reject = async (reason: CallbackRejectionReason): Promise<CallbackAuthResult> => {
+    console.warn(`🚫 Rejected callback on ${pathname}: ${reason} (job ${jobId}, task ${taskId})`);
+    await recordRejectedCallback({
+      route: pathname,
+      reason,
+      jobId,
+      taskId,
+      callbackType,
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined,
+    });
+    return { ok: false, reason };
+  };
+
+  if (!jobId || !expires || !signature) {
+    return reject('missing_token');
+  }
+
+  if (expires <= now) {
+    return reject('expired_token');
+  }
+
+  const expected = Buffer.from(sign(jobId, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return reject('invalid_signature');
+  }
+
+  if (!taskId) {
+    return reject('missing_task_id');
+  }
+
+  if ((await findJobIdByTaskId(taskId)) !== jobId) {
+    return reject('task_mismatch');
+  }
+
+  if (!(await claimCallbackDelivery(signature, callbackType, expires - now))) {
+    return reject('replay');
+  }
+
+  return {
+    ok: true,
+    jobId,
+    taskId,
+    release: () => releaseCallbackDelivery(signature, callbackType),
+  };
+}
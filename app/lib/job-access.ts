@@ -0,0 +1,54 @@
+/**
+ * Job access tokens
+ * Enqueueing a job returns an access token; reading, watching or cancelling the
+ * job requires it, either as the `X-Job-Token` header or, for EventSource
+ * (which can't send headers), as the `token` query param. The session that
+ * enqueued a job may access it without the token.
+ */
+
+import { NextRequest } from 'next/server';
+import { getJobOwner, getJobOwners, verifyJobAccessToken, verifyJobAccessTokens } from './queue';
+import { getSession } from './session';
+
+/**
+ * Access token sent with the request, if any
+ */
+export function getJobAccessToken(request: NextRequest): string | null {
+  return request.headers.get('x-job-token') || request.nextUrl.searchParams.get('token');
+}
+
+/**
+ * Check whether the request carries a valid access token for the job, or
+ * comes from the session that owns it.
+ * Routes answer a denied request like an unknown job, so job ids can't be probed.
+ */
+export async function hasJobAccess(request: NextRequest, jobId: string): Promise<boolean> {
+  if (await verifyJobAccessToken(jobId, getJobAccessToken(request))) {
+    return true;
+  }
+
+  const session = await getSession(request);
+  return session !== null && (await getJobOwner(jobId)) === session.userId;
+}
+
+/**
+ * hasJobAccess for several jobs, each with the token sent for it (batch
+ * requests carry their tokens in the body). Returns which jobs may be read.
+ */
+export async function hasJobsAccess(
+  request: NextRequest,
+  jobs: Array<{ jobId: string; accessToken?: string | null }>
+): Promise<boolean[]> {
+  const granted = await verifyJobAccessTokens(jobs);
+  if (granted.every(Boolean)) {
+    return granted;
+  }
+
+  const session = await getSession(request);
+  if (!session) {
+    return granted;
+  }
+
+  const owners = await getJobOwners(jobs.map(({ jobId }) => jobId));
+  return granted.map((allowed, index) => allowed || owners[index] === session.userId);
+}
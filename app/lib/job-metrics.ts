@@ -0,0 +1,137 @@
+/**
+ * Job ETAs from rolling metrics
+ * The queue records how long jobs wait, how long Suno takes to the stream
+ * preview and to full quality (per job type and Suno model), and how many jobs
+ * each cron run starts. Estimates are medians over the latest samples and fall
+ * back to typical values until enough samples exist.
+ */
+
+import {
+  getMetricSamples,
+  getJobProfile,
+  getRateLimitConfig,
+  type MetricSample,
+  type QueueJob,
+} from './queue';
+
+// Below this many samples a metric falls back to its default
+const minSamples = 3;
+
+// Typical values from observed Suno behaviour, used until there are samples
+const DEFAULT_CRON_INTERVAL_SECONDS = 60;
+const DEFAULT_STREAM_SECONDS = 30;
+const DEFAULT_COMPLETED_SECONDS: Record<QueueJob['type'], number> = {
+  music: 180,
+  lyrics: 20,
+};
+
+export interface JobEta {
+  queueWaitSeconds?: number; // Until a worker picks the job up (pending jobs)
+  streamPreviewSeconds?: number; // Until the stream preview is ready (music jobs)
+  fullQualitySeconds: number; // Until the job completes
+  measured: boolean; // False while any of the estimates is still a default
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Median duration of a latency metric in seconds
+ */
+async function getLatencySeconds(
+  metric: 'queue_wait' | 'stream_ready' | 'completed',
+  profile: string,
+  fallbackSeconds: number
+): Promise<{ seconds: number; measured: boolean }> {
+  const samples = await getMetricSamples(metric, profile);
+
+  if (samples.length < minSamples) {
+    return { seconds: fallbackSeconds, measured: false };
+  }
+
+  return { seconds: median(samples.map((sample) => sample.value)) / 1000, measured: true };
+}
+
+/**
+ * How many jobs a cron run starts when there is enough work, and how far apart
+ * the runs are
+ */
+async function getWorkerThroughput(): Promise<{
+  jobsPerRun: number;
+  runIntervalSeconds: number;
+  measured: boolean;
+}> {
+  const [runs, saturatedRuns] = await Promise.all([
+    getMetricSamples('worker_run', 'all'),
+    getMetricSamples('worker_capacity', 'all'),
+  ]);
+
+  // Samples are newest first
+  const gaps = runs.slice(1).map((run: MetricSample, index) => runs[index].at - run.at);
+  const intervalMeasured = gaps.length >= minSamples;
+  const capacityMeasured = saturatedRuns.length >= minSamples;
+
+  return {
+    jobsPerRun: capacityMeasured
+      ? Math.max(median(saturatedRuns.map((run) => run.value)), 1)
+      : getRateLimitConfig().maxRequests,
+    runIntervalSeconds: intervalMeasured ? median(gaps) / 1000 : DEFAULT_CRON_INTERVAL_SECONDS,
+    measured: intervalMeasured && capacityMeasured,
+  };
+}
+
+/**
+ * Estimate the remaining time of a pending or processing job.
+ * stage is the stage of its partial result, if any ('stream' once the preview
+ * is ready).
+ */
+export async function estimateJob(
+  job: QueueJob & { queuePosition?: number },
+  stage?: string
+): Promise<JobEta> {
+  const profile = getJobProfile(job);
+  const isMusic = job.type === 'music';
+
+  const [stream, completed] = await Promise.all([
+    getLatencySeconds('stream_ready', profile, DEFAULT_STREAM_SECONDS),
+    getLatencySeconds('completed', profile, DEFAULT_COMPLETED_SECONDS[job.type]),
+  ]);
+
+  let measured = completed.measured && (!isMusic || stream.measured);
+  let queueWaitSeconds: number | undefined;
+  let elapsedSeconds = 0;
+
+  if (job.status === 'pending') {
+    if (job.nextAttemptAt && job.nextAttemptAt > Date.now()) {
+      // Waiting out a retry backoff
+      queueWaitSeconds = (job.nextAttemptAt - Date.now()) / 1000;
+    } else if (job.queuePosition) {
+      const throughput = await getWorkerThroughput();
+      queueWaitSeconds = Math.ceil(job.queuePosition / throughput.jobsPerRun) * throughput.runIntervalSeconds;
+      measured = measured && throughput.measured;
+    } else {
+      const wait = await getLatencySeconds('queue_wait', job.type, DEFAULT_CRON_INTERVAL_SECONDS);
+      queueWaitSeconds = wait.seconds;
+      measured = measured && wait.measured;
+    }
+  } else if (job.startedAt) {
+    elapsedSeconds = (Date.now() - job.startedAt) / 1000;
+  }
+
+  const remaining = (seconds: number) =>
+    Math.ceil(Math.max(seconds - elapsedSeconds, 0) + (queueWaitSeconds ?? 0));
+
+  return {
+    queueWaitSeconds: queueWaitSeconds !== undefined ? Math.ceil(queueWaitSeconds) : undefined,
+    streamPreviewSeconds: isMusic
+      ? stage === 'stream' || stage === 'complete'
+        ? 0
+        : remaining(stream.seconds)
+      : undefined,
+    fullQualitySeconds: remaining(completed.seconds),
+    measured,
+  };
+}
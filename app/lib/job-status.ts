@@ -0,0 +1,125 @@
+/**
+ * Client-facing job status
+ * Shared by the status endpoint and its SSE stream so both report the same thing
+ */
+
+import {
+  getJobStatus,
+  getJobStatuses,
+  getJobResult,
+  getRetryPolicy,
+  type QueueJob,
+} from './queue';
+import { estimateJob } from './job-metrics';
+
+/**
+ * Build the status payload of a job: status, queue position, ETAs,
+ * (partial) result and a user-facing message. Returns null for unknown jobs.
+ */
+export async function getJobStatusView(jobId: string): Promise<any | null> {
+  const status = await getJobStatus(jobId);
+
+  if (!status) {
+    return null;
+  }
+
+  const result = status.status === 'completed' || status.status === 'processing'
+    ? await getJobResult(jobId)
+    : null;
+
+  return buildJobStatusView(status, result);
+}
+
+/**
+ * Status payloads of several jobs, read in one batch. Jobs that don't exist
+ * come back as null.
+ */
+export async function getJobStatusViews(jobIds: string[]): Promise<Array<any | null>> {
+  const entries = await getJobStatuses(jobIds);
+
+  return Promise.all(
+    entries.map((entry) => (entry ? buildJobStatusView(entry.status, entry.result) : null))
+  );
+}
+
+async function buildJobStatusView(
+  status: QueueJob & { queuePosition?: number; cancelRequested?: boolean },
+  result: any
+): Promise<any> {
+  const { maxRetries } = getRetryPolicy(status.type);
+
+  let response: any = {
+    jobId: status.id,
+    status: status.status,
+    type: status.type,
+    createdAt: status.createdAt,
+    attempts: status.attempts,
+    maxRetries,
+  };
+
+  // Lets any tab or device holding the job link rebuild the view
+  if (status.payload?.display) {
+    response.display = status.payload.display;
+  }
+
+  if (status.status === 'completed') {
+    response.result = result;
+  }
+
+  if (status.status === 'failed') {
+    response.error = status.error || 'Job failed';
+    if (status.attempts >= maxRetries) {
+      response.message = `Generation failed after ${status.attempts} attempts. Please try a fresh generation with different settings or try again later.`;
+    } else {
+      response.message = `Failed: ${status.error}`;
+    }
+  }
+
+  if (status.status === 'pending') {
+    // Include queue position for pending jobs
+    response.queuePosition = status.queuePosition;
+
+    response.eta = await estimateJob(status);
+    response.estimatedWaitSeconds = response.eta.queueWaitSeconds;
+
+    // Show retry info if this is a retry
+    if (status.attempts > 0) {
+      response.message = `Retrying... (attempt ${status.attempts + 1}/${maxRetries})`;
+      if (status.nextAttemptAt && status.nextAttemptAt > Date.now()) {
+        response.retryInSeconds = Math.ceil((status.nextAttemptAt - Date.now()) / 1000);
+        response.message = `Retrying in ${response.retryInSeconds}s... (attempt ${status.attempts + 1}/${maxRetries})`;
+      }
+    } else if (response.queuePosition) {
+      response.message = `Your music is in the queue at position ${response.queuePosition}. Estimated wait: ${response.estimatedWaitSeconds}s`;
+    } else {
+      response.message = 'Job is in the queue and will be processed soon...';
+    }
+  }
+
+  if (status.status === 'cancelled') {
+    response.message = 'This generation was cancelled.';
+  }
+
+  if (status.status === 'processing') {
+    // Partial result of a running job, e.g. stream URLs before full quality audio
+    const progress = result;
+    if (progress) {
+      response.result = progress;
+    }
+
+    response.eta = await estimateJob(status, progress?.stage);
+
+    if (status.cancelRequested) {
+      response.cancelRequested = true;
+      response.message = 'Cancelling your generation...';
+    } else if (progress?.stage === 'stream') {
+      response.message = 'Your preview is ready! Full quality is on its way...';
+    } else if (status.attempts > 1) {
+      response.message = `Creating your music... (retry ${status.attempts}/${maxRetries})`;
+    } else {
+      response.message = 'Your music is being created right now! 🎵';
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseLyrics } from './lyrics';
+import { analyzeMeter, countLineSyllables, countSyllables, detectLyricsLanguage } from './lyrics-meter';
+
+describe('countSyllables', () => {
+  it('counts Romanian diphthongs as one syllable', () => {
+    expect(countSyllables('soare', 'ro')).toBe(2);
+    expect(countSyllables('lumea', 'ro')).toBe(2);
+    expect(countSyllables('vreau', 'ro')).toBe(1);
+    expect(countSyllables('viața', 'ro')).toBe(2);
+  });
+
+  it('drops the barely voiced final -i and joins hyphenated clitics', () => {
+    expect(countSyllables('pomi', 'ro')).toBe(1);
+    expect(countSyllables('nu-mi', 'ro')).toBe(1);
+    expect(countSyllables('într-o', 'ro')).toBe(2);
+  });
+
+  it('skips silent endings in English', () => {
+    expect(countSyllables('time', 'en')).toBe(1);
+    expect(countSyllables('loved', 'en')).toBe(1);
+    expect(countSyllables('music', 'en')).toBe(2);
+    expect(countSyllables('you', 'en')).toBe(1);
+  });
+});
+
+describe('countLineSyllables', () => {
+  it('adds up the words of a line', () => {
+    expect(countLineSyllables('Fac ce vreau, nu-mi pasă', 'ro')).toBe(6);
+  });
+});
+
+describe('detectLyricsLanguage', () => {
+  it('recognises Romanian by its diacritics or common words', () => {
+    expect(detectLyricsLanguage('Fac ce vreau, nu-mi pasă')).toBe('ro');
+    expect(detectLyricsLanguage('eu si tu mai cantam')).toBe('ro');
+    expect(detectLyricsLanguage('We sing all night long')).toBe('en');
+  });
+});
+
+describe('analyzeMeter', () => {
+  const lyrics = parseLyrics(`[Verse]
+Fac ce vreau și nu-mi pasă
+Azi e ziua mea frumoasă
+Da
+[Chorus]
+Fac ce vreau, nu-mi pasă
+E viața mea, hai lasă
+Și ce-o să zică lumea
+[Verse 2]
+Merg pe drum și nu mă las
+Cânt cu voi la fiecare pas
+Eu`).lyrics;
+
+  it('holds the other sections to the median chorus line', () => {
+    const meter = analyzeMeter(lyrics, 'ro');
+
+    expect(meter.targetSyllables).toBe(7);
+    expect(meter.tolerance).toBe(3);
+    expect(meter.sections[0].lines.map((line) => line.offMeter)).toEqual([false, false, true]);
+    expect(meter.sections[1].lines.every((line) => !line.offMeter)).toBe(true);
+  });
+
+  it('uses the given target instead, e.g. a chorus that replaces the generated one', () => {
+    const meter = analyzeMeter(lyrics, 'ro', 12);
+    expect(meter.targetSyllables).toBe(12);
+    expect(meter.tolerance).toBe(4);
+    expect(meter.sections[2].lines.map((line) => line.syllables)).toEqual([7, 8, 1]);
+    expect(meter.sections[2].lines.map((line) => line.offMeter)).toEqual([true, false, true]);
+  });
+
+  it('compares later verses line by line with the first one', () => {
+    expect(analyzeMeter(lyrics, 'ro').verseConsistency).toBe(1);
+  });
+});
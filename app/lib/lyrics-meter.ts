@@ -0,0 +1,173 @@
+/**
+ * Syllables and meter
+ * Counts syllables per line for Romanian and English lyrics and compares
+ * lines against the chorus meter and verse against verse, so lines that won't
+ * sing well can be shown to the user or handed back to the model.
+ * Counting is heuristic: good to a syllable or so, which is what singability needs.
+ */
+
+import { getSectionTags, type Lyrics, type LyricsSectionType } from './lyrics';
+
+export type LyricsLanguage = 'ro' | 'en';
+
+// Vowel sequences Romanian pronounces as one syllable (diphthongs and
+// triphthongs); anything else is split into one syllable per vowel (hiatus)
+const RO_TRIPHTHONGS = new Set(['eai', 'eau', 'iai', 'iau', 'iei', 'ieu', 'ioa', 'iou', 'oai', 'eoa']);
+const RO_DIPHTHONGS = new Set([
+  'ea', 'eo', 'ia', 'ie', 'io', 'iu', 'oa', 'ua', 'uă',
+  'ai', 'au', 'ei', 'eu', 'ii', 'oi', 'ou', 'ui',
+  'ăi', 'ău', 'âi', 'âu', 'îi', 'îu',
+]);
+const RO_VOWEL_GROUP = /[aăâeiîouy]+/g;
+
+/**
+ * Romanian if the text has Romanian diacritics or enough common Romanian words
+ */
+export function detectLyricsLanguage(text: string): LyricsLanguage {
+  if (/[ăâîșțşţ]/i.test(text)) {
+    return 'ro';
+  }
+
+  const romanianWords = text.match(/\b(si|cu|de|la|pe|in|din|pentru|ca|sunt|este|nu|eu|tu|noi|mai|cand|cum)\b/gi);
+  return romanianWords && romanianWords.length >= 3 ? 'ro' : 'en';
+}
+
+function countRomanianSyllables(word: string): number {
+  // Cedilla variants are common in pasted text
+  const normalized = word.toLowerCase().replace(/ş/g, 'ș').replace(/ţ/g, 'ț').replace(/[^a-zăâîșț]/g, '');
+  let count = 0;
+
+  for (const group of normalized.match(RO_VOWEL_GROUP) ?? []) {
+    let index = 0;
+    while (index < group.length) {
+      if (RO_TRIPHTHONGS.has(group.slice(index, index + 3))) {
+        index += 3;
+      } else if (RO_DIPHTHONGS.has(group.slice(index, index + 2))) {
+        index += 2;
+      } else {
+        index += 1;
+      }
+      count++;
+    }
+  }
+
+  // Final -i after a consonant is barely voiced: pomi, lupi, nu-mi
+  if (count > 1 && /[^aăâeiîouy]i$/.test(normalized)) {
+    count--;
+  }
+
+  return count;
+}
+
+function countEnglishSyllables(word: string): number {
+  let normalized = word.toLowerCase().replace(/[^a-z]/g, '');
+
+  if (!normalized) {
+    return 0;
+  }
+  if (normalized.length <= 3) {
+    return 1;
+  }
+
+  // Silent endings (make, times, loved) and a leading y (you)
+  normalized = normalized.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(normalized.match(/[aeiouy]{1,2}/g)?.length ?? 0, 1);
+}
+
+/**
+ * Syllables of one word. Hyphenated Romanian clitics count as one word
+ * ("nu-mi", "s-a", "într-o").
+ */
+export function countSyllables(word: string, language: LyricsLanguage): number {
+  const joined = word.replace(/[-’']/g, '');
+  return language === 'ro' ? countRomanianSyllables(joined) : countEnglishSyllables(joined);
+}
+
+export function countLineSyllables(line: string, language: LyricsLanguage): number {
+  return line
+    .split(/\s+/)
+    .filter(Boolean)
+    .reduce((total, word) => total + countSyllables(word, language), 0);
+}
+
+export interface LineMeter {
+  text: string;
+  syllables: number;
+  offMeter: boolean; // Far from the target (chorus) meter
+}
+
+export interface SectionMeter {
+  tag: string;
+  type: LyricsSectionType;
+  lines: LineMeter[];
+}
+
+export interface MeterAnalysis {
+  language: LyricsLanguage;
+  targetSyllables?: number; // Syllables per line the other sections are held to
+  tolerance?: number; // Allowed distance from the target
+  sections: SectionMeter[];
+  verseConsistency?: number; // Share of matching verse lines (same position) within 2 syllables, 0-1
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+/**
+ * Syllable counts per line, flagged against the target meter. The target is
+ * the median chorus line unless given (e.g. the meter of a chorus that will
+ * replace the generated one).
+ */
+export function analyzeMeter(lyrics: Lyrics, language: LyricsLanguage, targetSyllables?: number): MeterAnalysis {
+  const counted = lyrics.sections.map((section) =>
+    section.lines.map((line) => countLineSyllables(line, language))
+  );
+
+  const chorusCounts = lyrics.sections.flatMap((section, index) =>
+    section.type === 'chorus' ? counted[index] : []
+  );
+  const target = targetSyllables ?? (chorusCounts.length > 0 ? median(chorusCounts) : undefined);
+  const tolerance = target !== undefined ? Math.max(3, Math.round(target * 0.35)) : undefined;
+
+  const tags = getSectionTags(lyrics);
+  const sections: SectionMeter[] = lyrics.sections.map((section, index) => ({
+    tag: tags[index],
+    type: section.type,
+    lines: section.lines.map((text, line) => {
+      const syllables = counted[index][line];
+      return {
+        text,
+        syllables,
+        offMeter:
+          section.type !== 'chorus' &&
+          target !== undefined &&
+          tolerance !== undefined &&
+          Math.abs(syllables - target) > tolerance,
+      };
+    }),
+  }));
+
+  // Later verses are sung to the melody of the first one
+  const verses = counted.filter((_, index) => lyrics.sections[index].type === 'verse');
+  let compared = 0;
+  let matching = 0;
+  for (const verse of verses.slice(1)) {
+    verse.slice(0, verses[0].length).forEach((syllables, line) => {
+      compared++;
+      if (Math.abs(syllables - verses[0][line]) <= 2) {
+        matching++;
+      }
+    });
+  }
+
+  return {
+    language,
+    targetSyllables: target,
+    tolerance,
+    sections,
+    verseConsistency: compared > 0 ? matching / compared : undefined,
+  };
+}
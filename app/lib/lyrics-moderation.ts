@@ -0,0 +1,37 @@
+/**
+ * Lyrics moderation
+ * Generated lyrics are checked for profanity before they're shown or stored;
+ * flagged ones are cleaned and must still be well-formed lyrics. Used by the
+ * streamed generate-lyrics route and by queued lyrics jobs for each option.
+ */
+
+import { hasLyricsErrors, normalizeLyrics, type LyricsParseResult } from './lyrics';
+import { containsProfanity, removeProfanity } from './profanity-filter';
+
+export interface LyricsModerationVerdict {
+  flagged: boolean; // The generated text contained profanity
+  cleaned: boolean; // The text kept is the cleaned version
+}
+
+export type NormalizedLyrics = LyricsParseResult & { text: string };
+
+/**
+ * Moderate normalized lyrics (see normalizeLyrics). Returns null when the
+ * cleaned text no longer parses as lyrics.
+ */
+export async function moderateLyrics(
+  lyrics: NormalizedLyrics
+): Promise<(NormalizedLyrics & { moderation: LyricsModerationVerdict }) | null> {
+  const flagged = await containsProfanity(lyrics.text);
+  if (!flagged) {
+    return { ...lyrics, moderation: { flagged, cleaned: false } };
+  }
+
+  console.warn('⚠️ Profanity detected in generated lyrics - cleaning...');
+  const cleaned = normalizeLyrics(await removeProfanity(lyrics.text));
+
+  if (hasLyricsErrors(cleaned.issues)) {
+    return null;
+  }
+  return { ...cleaned, moderation: { flagged, cleaned: cleaned.text !== lyrics.text } };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseLyrics } from './lyrics';
+import { analyzeRhyme, getRhymeEnding, isValidRhymeScheme } from './lyrics-rhyme';
+
+describe('isValidRhymeScheme', () => {
+  it('accepts schemes whose letters appear in alphabetical order', () => {
+    expect(isValidRhymeScheme('AABB')).toBe(true);
+    expect(isValidRhymeScheme('ABCB')).toBe(true);
+    expect(isValidRhymeScheme('BABA')).toBe(false);
+    expect(isValidRhymeScheme('ABD')).toBe(false);
+    expect(isValidRhymeScheme('abab')).toBe(false);
+    expect(isValidRhymeScheme('A')).toBe(false);
+  });
+});
+
+describe('getRhymeEnding', () => {
+  it('keeps a Romanian word from its stressed vowel on', () => {
+    expect(getRhymeEnding('Hai, lasă', 'ro')).toBe('asă');
+    expect(getRhymeEnding('E un soare', 'ro')).toBe('are');
+    expect(getRhymeEnding('Fac ce vreau', 'ro')).toBe('au');
+  });
+
+  it('approximates English endings', () => {
+    expect(getRhymeEnding('We have time', 'en')).toBe(getRhymeEnding('Sing this rhyme', 'en'));
+    expect(getRhymeEnding('Out at sea', 'en')).toBe(getRhymeEnding('You and me', 'en'));
+  });
+});
+
+describe('analyzeRhyme', () => {
+  const lyrics = parseLyrics(`[Verse]
+Nu-mi pasă, hai lasă
+Că viața e frumoasă
+Răsare iar un soare
+Pe câmpul plin de floare
+[Chorus]
+Fac ce vreau, ești culmea
+Și ce-o să zică lumea`).lyrics;
+
+  it('labels the scheme of each section', () => {
+    const analysis = analyzeRhyme(lyrics, 'ro');
+
+    expect(analysis.sections.map((section) => section.scheme)).toEqual(['AABB', 'AA']);
+    expect(analysis.sections[0].followedScheme).toBe('AABB');
+    expect(analysis.sections[0].lines.some((line) => line.breaksScheme)).toBe(false);
+  });
+
+  it('flags the lines that break a requested scheme', () => {
+    const [verse] = analyzeRhyme(lyrics, 'ro', 'ABAB').sections;
+
+    expect(verse.followedScheme).toBe('ABAB');
+    expect(verse.lines.map((line) => line.breaksScheme)).toEqual([true, true, true, true]);
+  });
+
+  it('leaves lines without a rhyme partner in the scheme free', () => {
+    const [verse] = analyzeRhyme(
+      parseLyrics('[Verse]\nUn drum lung\nNu-mi pasă\nAzi e vânt\nHai lasă').lyrics,
+      'ro',
+      'ABCB'
+    ).sections;
+
+    expect(verse.lines.map((line) => line.breaksScheme)).toEqual([false, false, false, false]);
+  });
+});
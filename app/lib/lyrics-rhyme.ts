@@ -0,0 +1,215 @@
+/**
+ * Rhyme schemes
+ * Reduces the last word of each line to its phonetic rhyme ending, labels each
+ * section's scheme (AABB, ABAB, ...) and flags the lines that break the scheme
+ * the section follows best, or the one that was asked for.
+ * Like the meter, this is heuristic: Romanian gets its own spelling-to-sound
+ * and stress rules, English a rough approximation.
+ */
+
+import { getSectionTags, type Lyrics, type LyricsSectionType } from './lyrics';
+import type { LyricsLanguage } from './lyrics-meter';
+
+// Quatrain schemes a section is matched against, in order of preference
+export const KNOWN_RHYME_SCHEMES = ['AABB', 'ABAB', 'ABBA', 'ABCB', 'AAAA'];
+
+// Leading glides of Romanian rising diphthongs: the stress falls on the second vowel
+const RO_RISING_DIPHTHONGS = /^(?:e(?=[aoă])|i(?=[aeouă])|o(?=a)|u(?=[aă]))/;
+const VOWEL_GROUP = /[aăâeiîouy]+/g;
+
+/**
+ * Whether a scheme is well-formed: 2-8 capital letters, each new letter the
+ * next in the alphabet (ABAB, AABB, ABCB; not BABA or ABD)
+ */
+export function isValidRhymeScheme(scheme: string): boolean {
+  if (!/^[A-Z]{2,8}$/.test(scheme)) {
+    return false;
+  }
+
+  let next = 0;
+  for (const letter of scheme) {
+    const index = letter.charCodeAt(0) - 65;
+    if (index > next) {
+      return false;
+    }
+    if (index === next) {
+      next++;
+    }
+  }
+  return true;
+}
+
+function lastWord(line: string): string {
+  const words = line.toLowerCase().match(/[\p{L}'’-]+/gu);
+  return words ? words[words.length - 1].replace(/^.*-/, '') : '';
+}
+
+/**
+ * Romanian spelling to sound: c/g are soft before e/i and hard in ch/gh,
+ * â and î are the same vowel, a final -i after a consonant is barely voiced
+ */
+function romanianSounds(word: string): string {
+  return word
+    .replace(/ş/g, 'ș')
+    .replace(/ţ/g, 'ț')
+    .replace(/î/g, 'â')
+    .replace(/c(?=[ei])/g, 'ç')
+    .replace(/g(?=[ei])/g, 'ğ')
+    .replace(/ch|c|q/g, 'k')
+    .replace(/gh/g, 'g')
+    .replace(/x/g, 'ks')
+    .replace(/w/g, 'v')
+    .replace(/y/g, 'i')
+    .replace(/([^aăâeiou])i$/, '$1')
+    .replace(/[^a-zăâçğșț]/g, '');
+}
+
+function romanianEnding(word: string): string {
+  const sounds = romanianSounds(word);
+  const groups = Array.from(sounds.matchAll(VOWEL_GROUP));
+
+  if (groups.length === 0) {
+    return sounds;
+  }
+
+  // Words ending in a vowel are mostly stressed on the second-to-last
+  // syllable (pasă, lumea, soare), the rest on the last one (vânt, pomi)
+  const endsInVowel = /[aăâeiou]$/.test(sounds);
+  const stressed = groups[endsInVowel && groups.length > 1 ? groups.length - 2 : groups.length - 1];
+  const nucleus = stressed[0].replace(RO_RISING_DIPHTHONGS, '');
+  return nucleus + sounds.slice((stressed.index ?? 0) + stressed[0].length);
+}
+
+function englishEnding(word: string): string {
+  const sounds = word
+    .replace(/[^a-z]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/([aeiouy][^aeiouy]+)e$/, '$1') // Silent e: time, rhyme
+    .replace(/^([^aeiou]*)e$|ea$|y$/, '$1ee') // me, sea, happy
+    .replace(/y/g, 'i');
+  const groups = Array.from(sounds.matchAll(/[aeiou]+/g));
+  const last = groups[groups.length - 1];
+
+  return last ? sounds.slice(last.index) : sounds;
+}
+
+/**
+ * Phonetic rhyme ending of a line: its last word from the stressed vowel on
+ * ("lasă" and "pasă" -> "asă", "soare" -> "are", "vreau" -> "au")
+ */
+export function getRhymeEnding(line: string, language: LyricsLanguage): string {
+  const word = lastWord(line);
+  return language === 'ro' ? romanianEnding(word) : englishEnding(word);
+}
+
+function vowels(ending: string): string {
+  return ending.replace(/[^aăâeiouy]/g, '');
+}
+
+/**
+ * Same ending, or a near rhyme: same vowels and the same last two sounds
+ * ("culmea" / "lumea")
+ */
+function rhymes(a: string, b: string): boolean {
+  if (!a || !b) {
+    return false;
+  }
+  return a === b || (vowels(a) === vowels(b) && a.length >= 2 && a.slice(-2) === b.slice(-2));
+}
+
+/**
+ * Letters of a scheme for a section of the given length: the quatrain is
+ * repeated with fresh letters (AABB -> AABBCCDD) and cut to length
+ */
+function expandScheme(scheme: string, length: number): string[] {
+  const letters: string[] = [];
+  const distinct = new Set(scheme).size;
+
+  for (let index = 0; index < length; index++) {
+    const round = Math.floor(index / scheme.length);
+    letters.push(String.fromCharCode(scheme.charCodeAt(index % scheme.length) + round * distinct));
+  }
+  return letters;
+}
+
+/**
+ * Lines that should rhyme with a partner under the scheme but rhyme with none
+ * of them. Lines without partners (C in ABCB) are free.
+ */
+function findBreaks(endings: string[], letters: string[]): number[] {
+  return endings.flatMap((ending, index) => {
+    const partners = endings.filter((_, other) => other !== index && letters[other] === letters[index]);
+    return partners.length > 0 && !partners.some((partner) => rhymes(ending, partner)) ? [index] : [];
+  });
+}
+
+export interface LineRhyme {
+  text: string;
+  ending: string;
+  letter: string; // Letter in the detected scheme
+  breaksScheme: boolean; // Doesn't rhyme where the section's scheme wants it to
+}
+
+export interface SectionRhyme {
+  tag: string;
+  type: LyricsSectionType;
+  scheme: string; // Detected, e.g. 'ABCB'
+  followedScheme?: string; // Known or requested scheme the lines are checked against
+  lines: LineRhyme[];
+}
+
+export interface RhymeAnalysis {
+  language: LyricsLanguage;
+  sections: SectionRhyme[];
+}
+
+/**
+ * Detect the rhyme scheme of every section. Each section of two or more lines
+ * is checked against the requested scheme, or otherwise the known scheme it
+ * breaks least (earlier ones win ties).
+ */
+export function analyzeRhyme(lyrics: Lyrics, language: LyricsLanguage, requestedScheme?: string): RhymeAnalysis {
+  const tags = getSectionTags(lyrics);
+
+  const sections = lyrics.sections.map((section, index): SectionRhyme => {
+    const endings = section.lines.map((line) => getRhymeEnding(line, language));
+
+    // Each line takes the letter of the first earlier line it rhymes with
+    const letters: string[] = [];
+    let nextLetter = 0;
+    endings.forEach((ending, line) => {
+      const match = endings.findIndex((other, previous) => previous < line && rhymes(ending, other));
+      letters.push(match >= 0 ? letters[match] : String.fromCharCode(65 + nextLetter++));
+    });
+
+    let followedScheme: string | undefined;
+    let breaks: number[] = [];
+
+    if (section.lines.length >= 2) {
+      const candidates = requestedScheme ? [requestedScheme] : KNOWN_RHYME_SCHEMES;
+      const fits = candidates.map((scheme) => ({
+        scheme,
+        breaks: findBreaks(endings, expandScheme(scheme, endings.length)),
+      }));
+      const best = fits.reduce((a, b) => (b.breaks.length < a.breaks.length ? b : a));
+      followedScheme = best.scheme;
+      breaks = best.breaks;
+    }
+
+    return {
+      tag: tags[index],
+      type: section.type,
+      scheme: letters.join(''),
+      followedScheme,
+      lines: section.lines.map((text, line) => ({
+        text,
+        ending: endings[line],
+        letter: letters[line],
+        breaksScheme: breaks.includes(line),
+      })),
+    };
+  });
+
+  return { language, sections };
+}
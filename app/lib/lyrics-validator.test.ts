@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseLyrics } from './lyrics';
+import { buildRepairInstruction, extractNames, validateLyrics, DEFAULT_LYRICS_RULES } from './lyrics-validator';
+
+const verse = (name: string) =>
+  [
+    `${name} walks along the morning road today`,
+    'The city wakes and sings a brand new song',
+    'We hold the moment close and never stray',
+    'Together we are right where we belong',
+  ].join('\n');
+
+const chorus = ['I do what I want, I do what I love', 'This is my life and my time', 'Let the world say what it will'].join(
+  '\n'
+);
+
+function lyricsOf(text: string) {
+  return parseLyrics(text).lyrics;
+}
+
+const wellFormed = `[Verse]\n${verse('Maria')}\n[Chorus]\n${chorus}\n[Verse 2]\n${verse('Ștefan')}\n[Chorus]\n${chorus}`;
+
+describe('extractNames', () => {
+  it('keeps capitalized words that do not start a sentence', () => {
+    expect(extractNames('Maria and Ștefan went to Paris. They danced all night')).toEqual(['Ștefan', 'Paris']);
+  });
+});
+
+describe('validateLyrics', () => {
+  it('passes lyrics in the requested shape', () => {
+    expect(validateLyrics(lyricsOf(wellFormed), ['Stefan', 'Maria'])).toEqual([]);
+  });
+
+  it('asks for the missing verse, a longer chorus and more text', () => {
+    const violations = validateLyrics(lyricsOf(`[Verse]\n${verse('Maria')}\n[Chorus]\nOne line only`));
+
+    expect(violations.map((violation) => violation.code)).toEqual(['verse_count', 'chorus_lines', 'too_short']);
+    expect(violations[1]).toMatchObject({ section: 1, message: 'Give [Chorus] 3-5 lines (it has 1)' });
+  });
+
+  it('flags names missing from the lyrics, ignoring diacritics', () => {
+    const violations = validateLyrics(lyricsOf(wellFormed), ['Stefan', 'Andrei']);
+    expect(violations.map((violation) => violation.message)).toEqual(['Mention "Andrei" from the story']);
+  });
+
+  it('skips the chorus and length rules when the chorus gets replaced', () => {
+    const lyrics = lyricsOf(`[Verse]\n${verse('Maria')}\n[Chorus]\nOne line only\n[Verse 2]\n${verse('Ana')}`);
+
+    expect(validateLyrics(lyrics).map((violation) => violation.code)).toEqual(['chorus_lines', 'too_short']);
+    expect(validateLyrics(lyrics, [], { ...DEFAULT_LYRICS_RULES, fixedChorus: true })).toEqual([]);
+  });
+
+  it('flags verse lines that break the requested rhyme scheme', () => {
+    const violations = validateLyrics(lyricsOf(wellFormed), [], {
+      ...DEFAULT_LYRICS_RULES,
+      rhyme: { language: 'en', scheme: 'AABB' },
+    });
+
+    // Both verses rhyme ABAB, so every line breaks AABB; the chorus is free
+    expect(violations).toHaveLength(8);
+    expect(violations.every((violation) => violation.code === 'rhyme_scheme' && violation.section !== 1)).toBe(true);
+
+    const abab = validateLyrics(lyricsOf(wellFormed), [], {
+      ...DEFAULT_LYRICS_RULES,
+      rhyme: { language: 'en', scheme: 'ABAB' },
+    });
+    expect(abab).toEqual([]);
+  });
+});
+
+describe('buildRepairInstruction', () => {
+  it('lists one fix per violation', () => {
+    const instruction = buildRepairInstruction(validateLyrics(lyricsOf(wellFormed), ['Andrei']));
+    expect(instruction).toMatch(/Fix ONLY the following/);
+    expect(instruction).toMatch(/\n- Mention "Andrei" from the story$/);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Lyrics quality rules
+ * The shape generate-lyrics asks GPT for (2 verses of 4-6 lines, a 3-5 line
+ * chorus, 400-700 characters), Suno's prompt limit, and the names from the
+ * story summary, and optionally the meter of each line against the chorus
+ * and the rhyme scheme of the verses.
+ * Violations are phrased so they can be handed back to the
+ * model as a list of targeted fixes.
+ */
+
+import { getSectionTags, removeDiacritics, serializeLyrics, type Lyrics } from './lyrics';
+import { analyzeMeter, type LyricsLanguage } from './lyrics-meter';
+import { analyzeRhyme } from './lyrics-rhyme';
+
+// Longest lyrics Suno accepts as the prompt in custom mode
+export const SUNO_PROMPT_MAX_LENGTH = 3000;
+
+export interface LyricsRules {
+  verses: number;
+  verseLines: { min: number; max: number };
+  chorusLines: { min: number; max: number };
+  length: { min: number; max: number };
+  // Flag lines far off the chorus meter; targetSyllables overrides the
+  // generated chorus, e.g. when a fixed chorus replaces it
+  meter?: { language: LyricsLanguage; targetSyllables?: number };
+  // Scheme every verse must rhyme in, e.g. 'ABAB' (see isValidRhymeScheme)
+  rhyme?: { language: LyricsLanguage; scheme: string };
+  // The generated chorus gets swapped for a fixed one: its lines and meter
+  // aren't checked, and neither is the total length, which the swap changes
+  fixedChorus?: boolean;
+}
+
+export const DEFAULT_LYRICS_RULES: LyricsRules = {
+  verses: 2,
+  verseLines: { min: 4, max: 6 },
+  chorusLines: { min: 3, max: 5 },
+  length: { min: 400, max: 700 },
+};
+
+export type LyricsViolationCode =
+  | 'verse_count'
+  | 'verse_lines'
+  | 'chorus_lines'
+  | 'too_short'
+  | 'too_long'
+  | 'prompt_limit'
+  | 'missing_name'
+  | 'off_meter'
+  | 'rhyme_scheme';
+
+export interface LyricsViolation {
+  code: LyricsViolationCode;
+  message: string; // Written as an instruction to the model
+  section?: number; // Index into lyrics.sections
+}
+
+function foldText(text: string): string {
+  return removeDiacritics(text).toLowerCase();
+}
+
+/**
+ * Proper names in a summary: capitalized words that don't start a sentence
+ */
+export function extractNames(summary: string): string[] {
+  const names = new Set<string>();
+  const pattern = /(^|[.!?]\s+|\s+)(\p{Lu}[\p{L}'-]+)/gu;
+
+  for (const match of summary.matchAll(pattern)) {
+    const startsSentence = match.index === 0 || /[.!?]/.test(match[1]);
+    if (!startsSentence) {
+      names.add(match[2]);
+    }
+  }
+
+  return Array.from(names);
+}
+
+/**
+ * Check lyrics against the rules; names are the ones that must appear (see
+ * extractNames). Returns no violations for lyrics that pass.
+ */
+export function validateLyrics(
+  lyrics: Lyrics,
+  names: string[] = [],
+  rules: LyricsRules = DEFAULT_LYRICS_RULES
+): LyricsViolation[] {
+  const violations: LyricsViolation[] = [];
+  const verses = lyrics.sections.filter((section) => section.type === 'verse');
+
+  if (verses.length !== rules.verses) {
+    violations.push({
+      code: 'verse_count',
+      message: `Write exactly ${rules.verses} verses (there are ${verses.length})`,
+    });
+  }
+
+  const tags = getSectionTags(lyrics);
+  lyrics.sections.forEach((section, index) => {
+    const limits =
+      section.type === 'verse'
+        ? rules.verseLines
+        : section.type === 'chorus' && !rules.fixedChorus
+          ? rules.chorusLines
+          : null;
+
+    if (limits && (section.lines.length < limits.min || section.lines.length > limits.max)) {
+      violations.push({
+        code: section.type === 'verse' ? 'verse_lines' : 'chorus_lines',
+        message: `Give [${tags[index]}] ${limits.min}-${limits.max} lines (it has ${section.lines.length})`,
+        section: index,
+      });
+    }
+  });
+
+  const text = serializeLyrics(lyrics);
+
+  if (text.length > SUNO_PROMPT_MAX_LENGTH) {
+    violations.push({
+      code: 'prompt_limit',
+      message: `Shorten the lyrics to at most ${SUNO_PROMPT_MAX_LENGTH} characters, Suno's limit (they have ${text.length})`,
+    });
+  } else if (!rules.fixedChorus && text.length > rules.length.max) {
+    violations.push({
+      code: 'too_long',
+      message: `Shorten the lyrics to at most ${rules.length.max} characters (they have ${text.length})`,
+    });
+  } else if (!rules.fixedChorus && text.length < rules.length.min) {
+    violations.push({
+      code: 'too_short',
+      message: `Lengthen the lyrics to at least ${rules.length.min} characters (they have ${text.length})`,
+    });
+  }
+
+  // Names may gain or lose diacritics along the way (Stefan / Ștefan)
+  const folded = foldText(text);
+  for (const name of names) {
+    if (!folded.includes(foldText(name))) {
+      violations.push({
+        code: 'missing_name',
+        message: `Mention "${name}" from the story`,
+      });
+    }
+  }
+
+  if (rules.meter) {
+    const meter = analyzeMeter(lyrics, rules.meter.language, rules.meter.targetSyllables);
+    meter.sections.forEach((section, index) => {
+      if (rules.fixedChorus && section.type === 'chorus') {
+        return;
+      }
+      section.lines.forEach((line, lineIndex) => {
+        if (line.offMeter) {
+          violations.push({
+            code: 'off_meter',
+            message: `Rewrite line ${lineIndex + 1} of [${section.tag}] ("${line.text}") to about ${meter.targetSyllables} syllables (it has ${line.syllables})`,
+            section: index,
+          });
+        }
+      });
+    });
+  }
+
+  if (rules.rhyme) {
+    const { scheme } = rules.rhyme;
+    analyzeRhyme(lyrics, rules.rhyme.language, scheme).sections.forEach((section, index) => {
+      if (section.type !== 'verse') {
+        return;
+      }
+      section.lines.forEach((line, lineIndex) => {
+        if (line.breaksScheme) {
+          violations.push({
+            code: 'rhyme_scheme',
+            message: `Change the end of line ${lineIndex + 1} of [${section.tag}] ("${line.text}") so the verse rhymes ${scheme}`,
+            section: index,
+          });
+        }
+      });
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Instruction asking the model to fix exactly these violations
+ */
+export function buildRepairInstruction(violations: LyricsViolation[]): string {
+  return `These lyrics break some requirements. Fix ONLY the following, keep everything else (wording, section tags, language, names) unchanged, and return only the corrected lyrics:
+${violations.map((violation) => `- ${violation.message}`).join('\n')}`;
+}
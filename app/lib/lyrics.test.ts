@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getSectionTags, hasLyricsErrors, haveSameStructure, normalizeLyrics, parseLyrics } from './lyrics';
+
+describe('parseLyrics', () => {
+  it('reads the tag variants GPT and users write', () => {
+    const { lyrics } = parseLyrics(`Here are your lyrics:
+**[Verse 1]**
+Mergem pe drum
+Pre-Chorus:
+Hai, hai
+## Refren
+Fac ce vreau
+(Strofa 2)
+Altă zi
+__Bridge__
+Punte mică
+[Instrumental]
+Solo`);
+
+    expect(lyrics.sections.map((section) => [section.type, section.lines])).toEqual([
+      ['verse', ['Mergem pe drum']],
+      ['prechorus', ['Hai, hai']],
+      ['chorus', ['Fac ce vreau']],
+      ['verse', ['Altă zi']],
+      ['bridge', ['Punte mică']],
+      ['instrumental', ['Solo']],
+    ]);
+  });
+
+  it('keeps unmarked words and parenthesised ad-libs as lyric lines', () => {
+    const { lyrics, issues } = parseLyrics(`[Verse]
+Final.
+Hook
+(oh, oh, oh)
+[Chorus]
+Fac ce vreau`);
+
+    expect(lyrics.sections[0].lines).toEqual(['Final.', 'Hook', '(oh, oh, oh)']);
+    expect(issues).toEqual([]);
+  });
+
+  it('keeps unknown square-bracketed tags as their own section', () => {
+    const { lyrics, issues } = parseLyrics('[Verse]\nUnu\n[Chorus]\nDoi\n[Spoken Word]\nTrei');
+
+    expect(lyrics.sections[2]).toEqual({ type: 'other', label: 'Spoken Word', lines: ['Trei'] });
+    expect(issues.map((issue) => issue.code)).toEqual(['unknown_tag']);
+  });
+
+  it('treats untagged text as a single verse', () => {
+    const { lyrics, issues } = parseLyrics('One line\nAnother line');
+
+    expect(lyrics.sections).toEqual([{ type: 'verse', label: 'Verse', lines: ['One line', 'Another line'] }]);
+    expect(issues.map((issue) => issue.code)).toEqual(['untagged_text', 'missing_chorus']);
+    expect(hasLyricsErrors(issues)).toBe(true);
+  });
+
+  it('reports empty lyrics as an error', () => {
+    expect(parseLyrics('```\n\n```').issues.map((issue) => issue.code)).toEqual(['empty']);
+  });
+});
+
+describe('normalizeLyrics', () => {
+  it('writes the sections back with Suno tags, numbering later verses', () => {
+    const { text } = normalizeLyrics(`Strofa 1:
+Unu
+Refren x2:
+Doi
+[Verse 2: Maria]
+Trei
+[Empty]
+[Outro]
+Patru`);
+
+    expect(text).toBe('[Verse]\nUnu\n\n[Chorus]\nDoi\n\n[Verse 2]\nTrei\n\n[Outro]\nPatru');
+  });
+
+  it('gives the same text when run twice', () => {
+    const once = normalizeLyrics('**Verse:**\n*Unu*\n**Chorus**\nDoi').text;
+    expect(normalizeLyrics(once).text).toBe(once);
+  });
+});
+
+describe('getSectionTags', () => {
+  it('numbers verses from the second one on', () => {
+    const { lyrics } = parseLyrics('[Verse]\na\n[Chorus]\nb\n[Verse]\nc\n[Verse]\nd');
+    expect(getSectionTags(lyrics)).toEqual(['Verse', 'Chorus', 'Verse 2', 'Verse 3']);
+  });
+});
+
+describe('haveSameStructure', () => {
+  it('compares section types and line counts, not wording', () => {
+    const a = parseLyrics('[Verse]\na\nb\n[Chorus]\nc').lyrics;
+    const b = parseLyrics('[Strofa]\nx\ny\n[Refren]\nz').lyrics;
+    const c = parseLyrics('[Verse]\na\n[Chorus]\nc').lyrics;
+
+    expect(haveSameStructure(a, b)).toBe(true);
+    expect(haveSameStructure(a, c)).toBe(false);
+  });
+});
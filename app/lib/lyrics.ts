@@ -0,0 +1,315 @@
+/**
+ * Structured lyrics
+ * Lyrics travel as text with Suno section tags ([Verse], [Prechorus],
+ * [Chorus], ...). This module parses that text into typed sections and lines,
+ * accepting the tag variants GPT and users write ("Pre-Chorus", "Verse 1:",
+ * "**[Refren]**", "Strofa 2:"), and serializes it back to the tags Suno expects.
+ * Shared by the API routes, the queue worker and the browser.
+ */
+
+export type LyricsSectionType =
+  | 'intro'
+  | 'verse'
+  | 'prechorus'
+  | 'chorus'
+  | 'bridge'
+  | 'interlude'
+  | 'instrumental'
+  | 'outro'
+  | 'other';
+
+export interface LyricsSection {
+  type: LyricsSectionType;
+  label: string; // Tag as written, e.g. 'Pre-Chorus' or 'Refren'
+  lines: string[];
+}
+
+export interface Lyrics {
+  sections: LyricsSection[];
+}
+
+export type LyricsIssueCode =
+  | 'empty'
+  | 'missing_verse'
+  | 'missing_chorus'
+  | 'untagged_text'
+  | 'unknown_tag'
+  | 'empty_section';
+
+export interface LyricsIssue {
+  code: LyricsIssueCode;
+  severity: 'error' | 'warning'; // Errors make the lyrics unfit for a music generation
+  message: string;
+  section?: number; // Index into sections
+}
+
+export interface LyricsParseResult {
+  lyrics: Lyrics;
+  issues: LyricsIssue[];
+}
+
+// Tag spellings by normalized key (lowercase, no diacritics, letters only)
+const SECTION_ALIASES: Record<string, LyricsSectionType> = {
+  intro: 'intro',
+  introducere: 'intro',
+  verse: 'verse',
+  vers: 'verse',
+  strofa: 'verse',
+  prechorus: 'prechorus',
+  prerefren: 'prechorus',
+  chorus: 'chorus',
+  refrain: 'chorus',
+  refren: 'chorus',
+  hook: 'chorus',
+  bridge: 'bridge',
+  punte: 'bridge',
+  interlude: 'interlude',
+  interludiu: 'interlude',
+  instrumental: 'instrumental',
+  outro: 'outro',
+  final: 'outro',
+};
+
+// Tags written back for Suno
+const SECTION_TAGS: Record<Exclude<LyricsSectionType, 'other'>, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  prechorus: 'Prechorus',
+  chorus: 'Chorus',
+  bridge: 'Bridge',
+  interlude: 'Interlude',
+  instrumental: 'Instrumental',
+  outro: 'Outro',
+};
+
+const BRACKETED_TAG = /^[#*_\s]*\[\s*([^\]]+?)\s*\][*_\s]*:?[*_\s]*$/;
+// "(Chorus)", but also ad-libs sung as written: "(oh, oh, oh)"
+const PARENTHESIZED_TAG = /^[#*_\s]*\(\s*([^)]+?)\s*\)[*_\s]*:?[*_\s]*$/;
+// Unbracketed: "Refren:", "**Chorus**", "## Verse 2" (markup, then a colon)
+const PLAIN_TAG = /^\s*(#+\s*)?(\*\*|__)?\s*([^\d:*_#]+?)\s*(\d+)?\s*(:)?\s*(\*\*|__)?\s*(:)?\s*$/;
+
+/**
+ * Strip diacritics: "Ștefan" -> "Stefan", "mării" -> "marii"
+ */
+export function removeDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function toAliasKey(label: string): string {
+  return removeDiacritics(label).toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Unbracketed header text, when the line is marked as a header: a Markdown
+ * heading, fully bold, or ending in a colon. A bare "Final." or "Hook" is a
+ * lyric line.
+ */
+function matchPlainHeader(line: string): string | undefined {
+  const match = line.match(PLAIN_TAG);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, heading, openBold, content, , colon, closeBold, trailingColon] = match;
+  if (openBold !== closeBold) {
+    return undefined;
+  }
+  return heading || openBold || colon || trailingColon ? content : undefined;
+}
+
+/**
+ * Read a section header line. Square-bracketed tags are always headers
+ * (unknown ones become 'other'); "(Refren)" and marked words like "Refren:"
+ * only when they name a section.
+ */
+function parseHeader(line: string): { type: LyricsSectionType; label: string } | null {
+  const bracketed = line.match(BRACKETED_TAG);
+  const content = bracketed?.[1] ?? line.match(PARENTHESIZED_TAG)?.[1] ?? matchPlainHeader(line);
+
+  if (!content) {
+    return null;
+  }
+
+  // "Verse 2: Maria", "Chorus x2", "Refren - repetat" -> "Verse", "Chorus", "Refren"
+  const label = content
+    .split(/\s*[:–—]\s*|\s+-\s+/)[0]
+    .replace(/\s+[x×]\s*\d*$/i, '')
+    .replace(/\s*\d+$/, '')
+    .trim();
+  const type = SECTION_ALIASES[toAliasKey(label)];
+
+  if (type) {
+    return { type, label };
+  }
+
+  return bracketed ? { type: 'other', label: content.trim() } : null;
+}
+
+function cleanLine(line: string): string {
+  // Markdown emphasis GPT sometimes wraps lines in
+  return line.replace(/\*\*|__/g, '').replace(/^[*_]+|[*_]+$/g, '').trim();
+}
+
+/**
+ * Parse lyrics text into sections. Never throws: problems come back as issues.
+ * Text before the first tag (titles, "Here are your lyrics:") is dropped when
+ * the text has tags, and becomes a verse when it has none.
+ */
+export function parseLyrics(text: string): LyricsParseResult {
+  const sections: LyricsSection[] = [];
+  const issues: LyricsIssue[] = [];
+  const untagged: string[] = [];
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*```/.test(rawLine)) {
+      continue;
+    }
+
+    const header = parseHeader(rawLine);
+    if (header) {
+      sections.push({ ...header, lines: [] });
+      continue;
+    }
+
+    const line = cleanLine(rawLine);
+    if (!line) {
+      continue;
+    }
+
+    if (sections.length === 0) {
+      untagged.push(line);
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  if (sections.length === 0 && untagged.length > 0) {
+    sections.push({ type: 'verse', label: 'Verse', lines: untagged });
+    issues.push({
+      code: 'untagged_text',
+      severity: 'warning',
+      message: 'Lyrics have no section tags; treated as a single verse',
+    });
+  } else if (untagged.length > 0) {
+    issues.push({
+      code: 'untagged_text',
+      severity: 'warning',
+      message: `Dropped ${untagged.length} line(s) before the first section tag`,
+    });
+  }
+
+  const lyrics = { sections };
+  return { lyrics, issues: [...issues, ...getStructureIssues(lyrics)] };
+}
+
+/**
+ * Structural problems of parsed lyrics: missing verse or chorus, empty and
+ * unknown sections
+ */
+export function getStructureIssues(lyrics: Lyrics): LyricsIssue[] {
+  const issues: LyricsIssue[] = [];
+  const sections = lyrics.sections;
+
+  if (sections.every((section) => section.lines.length === 0)) {
+    return [{ code: 'empty', severity: 'error', message: 'Lyrics are empty' }];
+  }
+
+  sections.forEach((section, index) => {
+    if (section.type === 'other') {
+      issues.push({
+        code: 'unknown_tag',
+        severity: 'warning',
+        message: `Unknown section tag [${section.label}]`,
+        section: index,
+      });
+    }
+    if (section.lines.length === 0) {
+      issues.push({
+        code: 'empty_section',
+        severity: 'warning',
+        message: `Section [${section.label}] has no lines`,
+        section: index,
+      });
+    }
+  });
+
+  const hasSection = (type: LyricsSectionType) =>
+    sections.some((section) => section.type === type && section.lines.length > 0);
+
+  if (!hasSection('verse')) {
+    issues.push({ code: 'missing_verse', severity: 'error', message: 'Lyrics have no verse' });
+  }
+  if (!hasSection('chorus')) {
+    issues.push({ code: 'missing_chorus', severity: 'error', message: 'Lyrics have no chorus' });
+  }
+
+  return issues;
+}
+
+/**
+ * Suno tag of each section, in order: 'Verse', 'Prechorus', 'Chorus',
+ * 'Verse 2', ... (verses are numbered from the second one on)
+ */
+export function getSectionTags(lyrics: Lyrics): string[] {
+  let verses = 0;
+
+  return lyrics.sections.map((section) => {
+    if (section.type === 'other') {
+      return section.label;
+    }
+    if (section.type === 'verse') {
+      verses++;
+      return verses > 1 ? `${SECTION_TAGS.verse} ${verses}` : SECTION_TAGS.verse;
+    }
+    return SECTION_TAGS[section.type];
+  });
+}
+
+/**
+ * Write lyrics back as text with Suno's tags: [Verse], [Verse 2], [Prechorus],
+ * [Chorus], ... Empty sections are left out.
+ */
+export function serializeLyrics(lyrics: Lyrics): string {
+  const sections = lyrics.sections.filter((section) => section.lines.length > 0);
+  const tags = getSectionTags({ sections });
+
+  return sections
+    .map((section, index) => `[${tags[index]}]\n${section.lines.join('\n')}`)
+    .join('\n\n');
+}
+
+/**
+ * Parse and re-serialize lyrics text in one go
+ */
+export function normalizeLyrics(text: string): LyricsParseResult & { text: string } {
+  const result = parseLyrics(text);
+  return { ...result, text: serializeLyrics(result.lyrics) };
+}
+
+export function hasLyricsErrors(issues: LyricsIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+/**
+ * One-line summary of the errors, for logs and error responses
+ */
+export function describeLyricsErrors(issues: LyricsIssue[]): string {
+  return issues
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => issue.message)
+    .join('; ');
+}
+
+/**
+ * Whether two versions of the lyrics have the same sections with the same
+ * number of lines, e.g. before and after a rewrite that must keep the structure
+ */
+export function haveSameStructure(a: Lyrics, b: Lyrics): boolean {
+  return (
+    a.sections.length === b.sections.length &&
+    a.sections.every(
+      (section, index) =>
+        section.type === b.sections[index].type && section.lines.length === b.sections[index].lines.length
+    )
+  );
+}
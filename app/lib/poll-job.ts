@@ -1,11 +1,17 @@
 /**
- * Job polling helpers for queue system
+ * Job status helpers for queue system
+ * Status comes from the job's SSE stream, with polling as the fallback.
+ * Every job request carries the access token returned by the enqueue routes,
+ * kept per job in localStorage (see saveJobAccessToken).
  */
 
+import type { JobEta } from './job-metrics';
+
 export interface JobStatus {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   type: 'lyrics' | 'music';
+  createdAt?: number;
   result?: any;
   error?: string;
   message?: string;
@@ -13,53 +19,266 @@ export interface JobStatus {
   estimatedWaitSeconds?: number;
   attempts?: number;
   maxRetries?: number;
+  retryInSeconds?: number;
+  cancelRequested?: boolean;
+  eta?: JobEta;
+  display?: any; // What the enqueueing client stored to show the job again
 }
 
+// Adaptive polling: fast while the job is changing, backing off while it isn't
+const minPollIntervalMs = 1000;
+const maxPollIntervalMs = 10000;
+
+// Give up on the SSE stream after this many errors in a row (each reconnect
+// that fails counts); a successful event resets the count
+const maxStreamErrors = 3;
+
+// Access tokens of the latest jobs, so they survive a page refresh
+const ACCESS_TOKENS_KEY = 'ing_job_tokens';
+const maxStoredAccessTokens = 20;
+
 /**
- * Poll job status until completed or failed
+ * Remember the access token returned when a job was enqueued
  */
-export async function pollJobUntilComplete(
+export function saveJobAccessToken(jobId: string, accessToken: string): void {
+  try {
+    const tokens: Record<string, string> = JSON.parse(localStorage.getItem(ACCESS_TOKENS_KEY) || '{}');
+    delete tokens[jobId];
+    tokens[jobId] = accessToken;
+
+    // Keep the newest entries (insertion order), dropping the oldest
+    const entries = Object.entries(tokens).slice(-maxStoredAccessTokens);
+    localStorage.setItem(ACCESS_TOKENS_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.warn(`⚠️ Failed to store access token for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Access token of a job, if this browser enqueued it
+ */
+export function getJobAccessToken(jobId: string): string | null {
+  try {
+    const tokens: Record<string, string> = JSON.parse(localStorage.getItem(ACCESS_TOKENS_KEY) || '{}');
+    return tokens[jobId] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function jobAccessHeaders(jobId: string): Record<string, string> {
+  const accessToken = getJobAccessToken(jobId);
+  return accessToken ? { 'X-Job-Token': accessToken } : {};
+}
+
+/**
+ * Link that opens the job in another tab or on another device. It carries the
+ * access token, so anyone holding it can follow (and cancel) the job.
+ */
+export function getJobShareUrl(jobId: string): string | null {
+  const accessToken = getJobAccessToken(jobId);
+  if (!accessToken) {
+    return null;
+  }
+
+  const url = new URL('/', window.location.origin);
+  url.searchParams.set('job', jobId);
+  url.searchParams.set('token', accessToken);
+  return url.toString();
+}
+
+/**
+ * Read a shared job link from the current URL, remember its token and remove
+ * it from the address bar. Returns the job id, if the URL had one.
+ */
+export function consumeSharedJobLink(): string | null {
+  const url = new URL(window.location.href);
+  const jobId = url.searchParams.get('job');
+  const accessToken = url.searchParams.get('token');
+
+  if (!jobId || !accessToken) {
+    return null;
+  }
+
+  saveJobAccessToken(jobId, accessToken);
+  url.searchParams.delete('job');
+  url.searchParams.delete('token');
+  window.history.replaceState(window.history.state, '', url.toString());
+  return jobId;
+}
+
+/**
+ * Current status of a job, or null when it doesn't exist (or has expired)
+ */
+export async function getJobStatus(jobId: string): Promise<JobStatus | null> {
+  const response = await fetch(`/api/job/${jobId}`, {
+    headers: jobAccessHeaders(jobId),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to get job status: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Current status of several jobs in one request, in the order of jobIds: null
+ * for jobs that don't exist (or have expired), same as getJobStatus
+ */
+export async function getJobStatuses(jobIds: string[]): Promise<Array<JobStatus | null>> {
+  const response = await fetch('/api/jobs/status', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jobs: jobIds.map((jobId) => ({ jobId, token: getJobAccessToken(jobId) ?? undefined })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to get job statuses: ${response.statusText}`);
+  }
+
+  // Unknown jobs come back as { jobId, error } without a status
+  const data: { jobs: Array<JobStatus | { jobId: string; error: string }> } = await response.json();
+  const byId = new Map(data.jobs.map((job) => [job.jobId, job]));
+
+  return jobIds.map((jobId) => {
+    const job = byId.get(jobId);
+    return job && 'status' in job ? job : null;
+  });
+}
+
+export interface WatchJobOptions {
+  onProgress?: (status: JobStatus) => void;
+  timeoutMs?: number; // Default 2 minutes
+}
+
+/**
+ * Follow a job until it finishes and return its result.
+ * Listens to the job's SSE stream when the browser supports it, and falls back
+ * to polling with an adaptive interval when it doesn't or the stream fails.
+ * Throws when the job fails, is cancelled ('Job cancelled') or takes too long.
+ */
+export async function watchJob(jobId: string, options: WatchJobOptions = {}): Promise<any> {
+  const deadline = Date.now() + (options.timeoutMs ?? 120000);
+
+  if (typeof EventSource !== 'undefined') {
+    const outcome = await streamJob(jobId, deadline, options.onProgress);
+    if (!outcome.fallback) {
+      return outcome.result;
+    }
+  }
+
+  return pollJob(jobId, deadline, options.onProgress);
+}
+
+function streamJob(
   jobId: string,
-  maxAttempts = 60, // 60 attempts × 2s = 2 minutes max
-  intervalMs = 2000
-): Promise<any> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const response = await fetch(`/api/job/${jobId}`);
+  deadline: number,
+  onProgress?: (status: JobStatus) => void
+): Promise<{ fallback: false; result: any } | { fallback: true }> {
+  return new Promise((resolve, reject) => {
+    // EventSource can't send headers, so the token goes in the query string
+    const accessToken = getJobAccessToken(jobId);
+    const query = accessToken ? `?token=${encodeURIComponent(accessToken)}` : '';
+    const source = new EventSource(`/api/job/${jobId}/stream${query}`);
+    let consecutiveErrors = 0;
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      source.close();
+      settle();
+    };
+
+    const timer = setTimeout(
+      () => finish(() => reject(new Error('Job timeout - exceeded maximum wait time'))),
+      Math.max(deadline - Date.now(), 0)
+    );
+
+    const receive = (event: Event): JobStatus => {
+      consecutiveErrors = 0;
+      const data: JobStatus = JSON.parse((event as MessageEvent).data);
+      onProgress?.(data);
+      return data;
+    };
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Job not found');
+    source.addEventListener('status', receive);
+    source.addEventListener('preview', receive);
+
+    source.addEventListener('completed', (event) => {
+      const data = receive(event);
+      finish(() => resolve({ fallback: false, result: data.result }));
+    });
+
+    source.addEventListener('failed', (event) => {
+      const data = receive(event);
+      finish(() => reject(new Error(data.error || 'Job failed')));
+    });
+
+    source.addEventListener('cancelled', (event) => {
+      receive(event);
+      finish(() => reject(new Error('Job cancelled')));
+    });
+
+    // The server ends every stream at its time limit and EventSource reconnects
+    // by itself; only a stream that keeps failing (or can't open) is given up
+    source.onerror = () => {
+      consecutiveErrors++;
+      if (source.readyState === EventSource.CLOSED || consecutiveErrors >= maxStreamErrors) {
+        console.warn(`⚠️ Status stream for job ${jobId} unavailable, falling back to polling`);
+        finish(() => resolve({ fallback: true }));
       }
-      throw new Error(`Failed to get job status: ${response.statusText}`);
-    }
+    };
+  });
+}
+
+async function pollJob(
+  jobId: string,
+  deadline: number,
+  onProgress?: (status: JobStatus) => void
+): Promise<any> {
+  let intervalMs = minPollIntervalMs;
+  let lastSnapshot = '';
 
-    const data: JobStatus = await response.json();
+  while (Date.now() < deadline) {
+    const data = await getJobStatus(jobId);
 
-    // Log queue position and status
-    if (data.status === 'pending' && data.queuePosition) {
-      console.log(
-        `⏳ Queue position: ${data.queuePosition} | Estimated wait: ${data.estimatedWaitSeconds}s`
-      );
-    } else if (data.status === 'processing') {
-      console.log('🎵 Creating your music...');
-    } else {
-      console.log(
-        `📊 Job ${jobId} status: ${data.status} (attempt ${attempt + 1}/${maxAttempts})`
-      );
+    if (!data) {
+      throw new Error('Job not found');
     }
 
+    onProgress?.(data);
+
     if (data.status === 'completed') {
-      console.log('✅ Job completed successfully');
       return data.result;
     }
 
     if (data.status === 'failed') {
-      const errorMessage = data.error || 'Job failed';
-      console.error(`❌ Job failed: ${errorMessage}`);
-      throw new Error(errorMessage);
+      throw new Error(data.error || 'Job failed');
+    }
+
+    if (data.status === 'cancelled') {
+      throw new Error('Job cancelled');
+    }
+
+    // Still pending or processing: check again soon if something moved,
+    // otherwise back off
+    const snapshot = `${data.status}:${data.queuePosition}:${data.result?.stage}`;
+    intervalMs = snapshot === lastSnapshot
+      ? Math.min(intervalMs * 1.5, maxPollIntervalMs)
+      : minPollIntervalMs;
+    lastSnapshot = snapshot;
+
+    // A scheduled retry won't start any earlier
+    if (data.retryInSeconds) {
+      intervalMs = Math.max(intervalMs, Math.min(data.retryInSeconds * 1000, maxPollIntervalMs));
     }
 
-    // Still pending or processing - wait before next check
     await new Promise((resolve) => setTimeout(resolve, intervalMs));
   }
 
@@ -67,40 +286,70 @@ export async function pollJobUntilComplete(
 }
 
 /**
- * Poll job status with progress callback
+ * Wait for a job to complete and log its progress
  */
-export async function pollJobWithProgress(
+export async function pollJobUntilComplete(
   jobId: string,
-  onProgress: (status: JobStatus) => void,
-  maxAttempts = 60,
+  maxAttempts = 60, // 60 attempts × 2s = 2 minutes max
   intervalMs = 2000
 ): Promise<any> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const response = await fetch(`/api/job/${jobId}`);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Job not found');
-      }
-      throw new Error(`Failed to get job status: ${response.statusText}`);
-    }
+  try {
+    const result = await watchJob(jobId, {
+      timeoutMs: maxAttempts * intervalMs,
+      onProgress: (data) => {
+        // Log queue position and status
+        if (data.status === 'pending' && data.queuePosition) {
+          console.log(
+            `⏳ Queue position: ${data.queuePosition} | Estimated wait: ${data.estimatedWaitSeconds}s`
+          );
+        } else if (data.status === 'processing') {
+          console.log('🎵 Creating your music...');
+        } else {
+          console.log(`📊 Job ${jobId} status: ${data.status}`);
+        }
+      },
+    });
 
-    const data: JobStatus = await response.json();
-
-    // Call progress callback
-    onProgress(data);
-
-    if (data.status === 'completed') {
-      return data.result;
+    console.log('✅ Job completed successfully');
+    return result;
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Job cancelled') {
+      console.log(`🚫 Job ${jobId} was cancelled`);
+    } else {
+      console.error(`❌ Job failed: ${error instanceof Error ? error.message : error}`);
     }
+    throw error;
+  }
+}
 
-    if (data.status === 'failed') {
-      throw new Error(data.error || 'Job failed');
-    }
+/**
+ * Wait for a job to complete, reporting every status update
+ */
+export async function pollJobWithProgress(
+  jobId: string,
+  onProgress: (status: JobStatus) => void,
+  maxAttempts = 60,
+  intervalMs = 2000
+): Promise<any> {
+  return watchJob(jobId, {
+    onProgress,
+    timeoutMs: maxAttempts * intervalMs,
+  });
+}
 
-    // Still pending or processing
-    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+/**
+ * Cancel a job the user is no longer waiting for.
+ * Uses keepalive so the request still goes out while the page unloads.
+ */
+export async function cancelJob(jobId: string): Promise<void> {
+  try {
+    await fetch(`/api/job/${jobId}`, {
+      method: 'DELETE',
+      headers: jobAccessHeaders(jobId),
+      keepalive: true,
+    });
+    console.log(`🚫 Cancellation sent for job ${jobId}`);
+  } catch (error) {
+    console.warn(`⚠️ Failed to cancel job ${jobId}:`, error);
   }
-
-  throw new Error('Job timeout');
 }
@@ -0,0 +1,261 @@
+/**
+ * Vercel KV (Redis) queue storage
+ * Fair-queue operations run as Lua scripts so every step is atomic
+ */
+
+import { kv } from '@vercel/kv';
+import { Ratelimit } from '@upstash/ratelimit';
+import {
+  ACTIVE_USERS_KEY,
+  DEQUEUED_SEQ_KEY,
+  INFLIGHT_KEY,
+  REMOVED_SEQ_KEY,
+  REMOVED_TICKETS_PREFIX,
+  USER_QUEUE_PREFIX,
+  type QueueStore,
+  type RateLimitConfig,
+} from './queue-store';
+
+// Append a job to its user's sub-queue; a user whose sub-queue was empty joins
+// the back of the ring
+const ENQUEUE_SCRIPT = `
+redis.call('LPUSH', KEYS[1], ARGV[1])
+if redis.call('LLEN', KEYS[1]) == 1 then
+  redis.call('LPUSH', KEYS[2], ARGV[2])
+end
+return 1
+`;
+
+// Atomically take the given user from the ring, pop their oldest job and
+// register its lease, so a crash between the steps can never drop the job on
+// the floor. Users with more queued work go back to the end of the ring. The
+// user's dequeue counter moves to the job's ticket, and removed tickets it
+// passed are dropped.
+// Scripts may only touch the keys passed in, so the caller looks up the next
+// user first (ARGV[2]). Returns 0 when that user is no longer next in the ring
+// or had nothing queued (their entry is dropped); the caller then looks again.
+const DEQUEUE_SCRIPT = `
+if redis.call('LINDEX', KEYS[1], -1) ~= ARGV[2] then return 0 end
+redis.call('RPOP', KEYS[1])
+local item = redis.call('RPOP', KEYS[2])
+if redis.call('LLEN', KEYS[2]) > 0 then
+  redis.call('LPUSH', KEYS[1], ARGV[2])
+end
+if not item then return 0 end
+local job = cjson.decode(item)
+redis.call('ZADD', KEYS[3], ARGV[1], job.id)
+redis.call('INCR', KEYS[4])
+if job.queueTicket then
+  redis.call('SET', KEYS[5], job.queueTicket)
+  redis.call('ZREMRANGEBYSCORE', KEYS[6], '-inf', job.queueTicket)
+else
+  redis.call('INCR', KEYS[5])
+end
+return item
+`;
+
+// Remove one job from its user's sub-queue. Sub-queues are bounded by the
+// per-user concurrent limit, so scanning one is cheap. Removing the head (the
+// list's right end) moves the user's dequeue counter like a pop; a job further
+// back keeps its ticket in the removed set, so the jobs behind it move up
+// while the ones ahead keep their place.
+const REMOVE_PENDING_SCRIPT = `
+local items = redis.call('LRANGE', KEYS[1], 0, -1)
+for index, item in ipairs(items) do
+  local job = cjson.decode(item)
+  if job.id == ARGV[1] then
+    redis.call('LREM', KEYS[1], 1, item)
+    redis.call('INCR', KEYS[3])
+    if job.queueTicket then
+      if index == #items then
+        redis.call('SET', KEYS[4], job.queueTicket)
+        redis.call('ZREMRANGEBYSCORE', KEYS[5], '-inf', job.queueTicket)
+      else
+        redis.call('ZADD', KEYS[5], job.queueTicket, job.id)
+      end
+    end
+    if redis.call('LLEN', KEYS[1]) == 0 then
+      redis.call('LREM', KEYS[2], 0, ARGV[2])
+    end
+    return 1
+  end
+end
+return 0
+`;
+
+// Delete a key only while it still holds the caller's value, so a lock holder
+// whose lease expired can't release a lock someone else acquired since
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export function createKvQueueStore({ maxRequests, windowSeconds }: RateLimitConfig): QueueStore {
+  const ratelimit = new Ratelimit({
+    redis: kv,
+    limiter: Ratelimit.slidingWindow(maxRequests, `${windowSeconds} s`),
+    analytics: true,
+    prefix: 'suno-ratelimit',
+  });
+
+  return {
+    async get<T>(key: string) {
+      return kv.get<T>(key);
+    },
+
+    async getMany<T>(keys: string[]) {
+      if (keys.length === 0) {
+        return [];
+      }
+      return kv.mget<(T | null)[]>(...keys);
+    },
+
+    async set(key, value, options = {}) {
+      const { ttlSeconds, onlyIfAbsent } = options;
+      const result = onlyIfAbsent
+        ? ttlSeconds
+          ? await kv.set(key, value, { nx: true, ex: ttlSeconds })
+          : await kv.set(key, value, { nx: true })
+        : ttlSeconds
+          ? await kv.set(key, value, { ex: ttlSeconds })
+          : await kv.set(key, value);
+      return result !== null;
+    },
+
+    async del(...keys) {
+      if (keys.length > 0) {
+        await kv.del(...keys);
+      }
+    },
+
+    async exists(key) {
+      return (await kv.exists(key)) > 0;
+    },
+
+    async expire(key, ttlSeconds) {
+      await kv.expire(key, ttlSeconds);
+    },
+
+    async delIfEquals(key, expected) {
+      const deleted = await kv.eval<[string], number>(DELETE_IF_EQUALS_SCRIPT, [key], [expected]);
+      return deleted > 0;
+    },
+
+    incr: (key) => kv.incr(key),
+    decr: (key) => kv.decr(key),
+
+    async listPush(key, value) {
+      await kv.lpush(key, value);
+    },
+
+    async listRange(key, start, stop) {
+      // The client parses JSON list items on read; hand them back as stored
+      const items = (await kv.lrange<unknown>(key, start, stop)) || [];
+      return items.map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+    },
+
+    async listTrim(key, start, stop) {
+      await kv.ltrim(key, start, stop);
+    },
+
+    async listLength(key) {
+      return (await kv.llen(key)) || 0;
+    },
+
+    listRemove: (key, value) => kv.lrem(key, 0, value),
+
+    async listIndexOf(key, value) {
+      const index = await kv.lpos<number | null>(key, value);
+      return index ?? null;
+    },
+
+    async setAdd(key, member) {
+      await kv.sadd(key, member);
+    },
+
+    async setRemove(key, member) {
+      await kv.srem(key, member);
+    },
+
+    async setSize(key) {
+      return (await kv.scard(key)) || 0;
+    },
+
+    async sortedSetAdd(key, score, member) {
+      await kv.zadd(key, { score, member });
+    },
+
+    async sortedSetRemove(key, member) {
+      return (await kv.zrem(key, member)) > 0;
+    },
+
+    async sortedSetRangeByScore(key, min, max) {
+      return (await kv.zrange<string[]>(key, min, max, { byScore: true })) || [];
+    },
+
+    async sortedSetSize(key) {
+      return (await kv.zcard(key)) || 0;
+    },
+
+    async pushPending(userId, item) {
+      await kv.eval(
+        ENQUEUE_SCRIPT,
+        [`${USER_QUEUE_PREFIX}${userId}`, ACTIVE_USERS_KEY],
+        [JSON.stringify(item), userId]
+      );
+    },
+
+    async popPending<T extends { id: string }>(leaseExpiresAt: number) {
+      while (true) {
+        const next = await kv.lindex(ACTIVE_USERS_KEY, -1);
+        if (next === null || next === undefined) {
+          return null;
+        }
+
+        // The client may parse numeric-looking ids; the ring holds strings
+        const userId = String(next);
+        const item = await kv.eval(
+          DEQUEUE_SCRIPT,
+          [
+            ACTIVE_USERS_KEY,
+            `${USER_QUEUE_PREFIX}${userId}`,
+            INFLIGHT_KEY,
+            DEQUEUED_SEQ_KEY,
+            `${DEQUEUED_SEQ_KEY}:${userId}`,
+            `${REMOVED_TICKETS_PREFIX}${userId}`,
+          ],
+          [leaseExpiresAt, userId]
+        );
+
+        // Another worker took the user first, or their sub-queue was empty
+        if (item === 0) {
+          continue;
+        }
+
+        return typeof item === 'string' ? JSON.parse(item) : (item as T);
+      }
+    },
+
+    async removePending(userId, id) {
+      const removed = await kv.eval<[string, string], number>(
+        REMOVE_PENDING_SCRIPT,
+        [
+          `${USER_QUEUE_PREFIX}${userId}`,
+          ACTIVE_USERS_KEY,
+          REMOVED_SEQ_KEY,
+          `${DEQUEUED_SEQ_KEY}:${userId}`,
+          `${REMOVED_TICKETS_PREFIX}${userId}`,
+        ],
+        [id, userId]
+      );
+      return removed > 0;
+    },
+
+    async rateLimit(identifier) {
+      const { success, remaining, reset } = await ratelimit.limit(identifier);
+      return { success, remaining, reset };
+    },
+  };
+}
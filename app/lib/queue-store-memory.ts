@@ -0,0 +1,377 @@
+/**
+ * In-memory queue storage
+ * Mirrors the Vercel KV backend (including key expiry and the sliding-window
+ * rate limiter) so the whole pipeline runs locally without external services.
+ * State lives in the server process and is lost on restart.
+ */
+
+import {
+  ACTIVE_USERS_KEY,
+  DEQUEUED_SEQ_KEY,
+  INFLIGHT_KEY,
+  REMOVED_SEQ_KEY,
+  REMOVED_TICKETS_PREFIX,
+  USER_QUEUE_PREFIX,
+  type QueueStore,
+  type RateLimitConfig,
+} from './queue-store';
+
+type StoredValue =
+  | { kind: 'value'; data: string }
+  | { kind: 'list'; data: string[] }
+  | { kind: 'set'; data: Set<string> }
+  | { kind: 'zset'; data: Map<string, number> };
+
+type Entry = StoredValue & { expiresAt?: number };
+
+// Values are kept serialized, so callers never share object references with
+// the store, just like with Redis. Reads parse JSON where possible.
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deserialize<T>(data: string): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return data as T;
+  }
+}
+
+// Redis-style inclusive range with negative indexes counted from the end
+function sliceRange<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(items.length + start, 0) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return items.slice(from, to + 1);
+}
+
+function createStore({ maxRequests, windowSeconds }: RateLimitConfig): QueueStore {
+  const entries = new Map<string, Entry>();
+  const rateLimitLog = new Map<string, number[]>();
+
+  function read(key: string): Entry | undefined {
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  function readAs<K extends StoredValue['kind']>(key: string, kind: K) {
+    const entry = read(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.kind !== kind) {
+      throw new Error(`WRONGTYPE: ${key} holds a ${entry.kind}, not a ${kind}`);
+    }
+    return entry as Extract<Entry, { kind: K }>;
+  }
+
+  // Collections are created on first write and disappear once empty, as in Redis
+  function list(key: string): string[] {
+    const entry = readAs(key, 'list');
+    if (entry) {
+      return entry.data;
+    }
+    const data: string[] = [];
+    entries.set(key, { kind: 'list', data });
+    return data;
+  }
+
+  function dropIfEmpty(key: string): void {
+    const entry = read(key);
+    if (!entry || entry.kind === 'value') {
+      return;
+    }
+    const size = entry.kind === 'list' ? entry.data.length : entry.data.size;
+    if (size === 0) {
+      entries.delete(key);
+    }
+  }
+
+  function incrBy(key: string, delta: number): number {
+    const entry = readAs(key, 'value');
+    const current = entry ? Number(entry.data) : 0;
+    if (Number.isNaN(current)) {
+      throw new Error(`ERR value at ${key} is not an integer`);
+    }
+    const next = current + delta;
+    // INCR keeps an existing TTL
+    entries.set(key, { kind: 'value', data: String(next), expiresAt: entry?.expiresAt });
+    return next;
+  }
+
+  function sortedSetAdd(key: string, score: number, member: string): void {
+    const entry = readAs(key, 'zset');
+    if (entry) {
+      entry.data.set(member, score);
+    } else {
+      entries.set(key, { kind: 'zset', data: new Map([[member, score]]) });
+    }
+  }
+
+  // The head of a user's sub-queue moved past this ticket: the user's dequeue
+  // counter takes it and removed tickets up to it are dropped
+  function advanceHead(userId: string, ticket: number | undefined): void {
+    const userDequeuedKey = `${DEQUEUED_SEQ_KEY}:${userId}`;
+    if (ticket === undefined) {
+      incrBy(userDequeuedKey, 1);
+      return;
+    }
+
+    const entry = readAs(userDequeuedKey, 'value');
+    entries.set(userDequeuedKey, { kind: 'value', data: String(ticket), expiresAt: entry?.expiresAt });
+
+    const removedKey = `${REMOVED_TICKETS_PREFIX}${userId}`;
+    const removed = readAs(removedKey, 'zset');
+    removed?.data.forEach((score, member) => {
+      if (score <= ticket) {
+        removed.data.delete(member);
+      }
+    });
+    dropIfEmpty(removedKey);
+  }
+
+  return {
+    async get<T>(key: string) {
+      const entry = readAs(key, 'value');
+      return entry ? deserialize<T>(entry.data) : null;
+    },
+
+    async getMany<T>(keys: string[]) {
+      return keys.map((key) => {
+        const entry = readAs(key, 'value');
+        return entry ? deserialize<T>(entry.data) : null;
+      });
+    },
+
+    async set(key, value, options = {}) {
+      if (options.onlyIfAbsent && read(key)) {
+        return false;
+      }
+      entries.set(key, {
+        kind: 'value',
+        data: serialize(value),
+        expiresAt: options.ttlSeconds ? Date.now() + options.ttlSeconds * 1000 : undefined,
+      });
+      return true;
+    },
+
+    async del(...keys) {
+      for (const key of keys) {
+        entries.delete(key);
+      }
+    },
+
+    async exists(key) {
+      return read(key) !== undefined;
+    },
+
+    async expire(key, ttlSeconds) {
+      const entry = read(key);
+      if (entry) {
+        entry.expiresAt = Date.now() + ttlSeconds * 1000;
+      }
+    },
+
+    async delIfEquals(key, expected) {
+      const entry = readAs(key, 'value');
+      if (!entry || entry.data !== expected) {
+        return false;
+      }
+      entries.delete(key);
+      return true;
+    },
+
+    async incr(key) {
+      return incrBy(key, 1);
+    },
+
+    async decr(key) {
+      return incrBy(key, -1);
+    },
+
+    async listPush(key, value) {
+      list(key).unshift(value);
+    },
+
+    async listRange(key, start, stop) {
+      const entry = readAs(key, 'list');
+      return entry ? sliceRange(entry.data, start, stop) : [];
+    },
+
+    async listTrim(key, start, stop) {
+      const entry = readAs(key, 'list');
+      if (entry) {
+        entry.data = sliceRange(entry.data, start, stop);
+        dropIfEmpty(key);
+      }
+    },
+
+    async listLength(key) {
+      return readAs(key, 'list')?.data.length ?? 0;
+    },
+
+    async listRemove(key, value) {
+      const entry = readAs(key, 'list');
+      if (!entry) {
+        return 0;
+      }
+      const remaining = entry.data.filter((item) => item !== value);
+      const removed = entry.data.length - remaining.length;
+      entry.data = remaining;
+      dropIfEmpty(key);
+      return removed;
+    },
+
+    async listIndexOf(key, value) {
+      const index = readAs(key, 'list')?.data.indexOf(value) ?? -1;
+      return index === -1 ? null : index;
+    },
+
+    async setAdd(key, member) {
+      const entry = readAs(key, 'set');
+      if (entry) {
+        entry.data.add(member);
+      } else {
+        entries.set(key, { kind: 'set', data: new Set([member]) });
+      }
+    },
+
+    async setRemove(key, member) {
+      readAs(key, 'set')?.data.delete(member);
+      dropIfEmpty(key);
+    },
+
+    async setSize(key) {
+      return readAs(key, 'set')?.data.size ?? 0;
+    },
+
+    async sortedSetAdd(key, score, member) {
+      sortedSetAdd(key, score, member);
+    },
+
+    async sortedSetRemove(key, member) {
+      const removed = readAs(key, 'zset')?.data.delete(member) ?? false;
+      dropIfEmpty(key);
+      return removed;
+    },
+
+    async sortedSetRangeByScore(key, min, max) {
+      const entry = readAs(key, 'zset');
+      if (!entry) {
+        return [];
+      }
+      return Array.from(entry.data.entries())
+        .filter(([, score]) => score >= min && score <= max)
+        .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || a.localeCompare(b))
+        .map(([member]) => member);
+    },
+
+    async sortedSetSize(key) {
+      return readAs(key, 'zset')?.data.size ?? 0;
+    },
+
+    // The fair-queue operations below never await, so they are atomic within
+    // the process just like the Lua scripts of the KV backend
+
+    async pushPending(userId, item) {
+      const userQueue = list(`${USER_QUEUE_PREFIX}${userId}`);
+      userQueue.unshift(JSON.stringify(item));
+      if (userQueue.length === 1) {
+        list(ACTIVE_USERS_KEY).unshift(userId);
+      }
+    },
+
+    async popPending<T extends { id: string }>(leaseExpiresAt: number) {
+      while (true) {
+        const ring = readAs(ACTIVE_USERS_KEY, 'list');
+        const userId = ring?.data.pop();
+        dropIfEmpty(ACTIVE_USERS_KEY);
+        if (userId === undefined) {
+          return null;
+        }
+
+        const userQueueKey = `${USER_QUEUE_PREFIX}${userId}`;
+        const userQueue = readAs(userQueueKey, 'list');
+        const item = userQueue?.data.pop();
+        if (userQueue && userQueue.data.length > 0) {
+          list(ACTIVE_USERS_KEY).unshift(userId);
+        }
+        dropIfEmpty(userQueueKey);
+
+        if (item !== undefined) {
+          const job = JSON.parse(item) as T & { queueTicket?: number };
+          sortedSetAdd(INFLIGHT_KEY, leaseExpiresAt, job.id);
+          incrBy(DEQUEUED_SEQ_KEY, 1);
+          advanceHead(userId, job.queueTicket);
+          return job;
+        }
+      }
+    },
+
+    async removePending(userId, id) {
+      const userQueueKey = `${USER_QUEUE_PREFIX}${userId}`;
+      const userQueue = readAs(userQueueKey, 'list');
+      const index = userQueue?.data.findIndex((item) => JSON.parse(item).id === id) ?? -1;
+      if (!userQueue || index === -1) {
+        return false;
+      }
+
+      // The head is the end of the list (see popPending)
+      const isHead = index === userQueue.data.length - 1;
+      const [item] = userQueue.data.splice(index, 1);
+      const ticket: number | undefined = JSON.parse(item).queueTicket;
+      incrBy(REMOVED_SEQ_KEY, 1);
+      if (ticket !== undefined) {
+        if (isHead) {
+          advanceHead(userId, ticket);
+        } else {
+          sortedSetAdd(`${REMOVED_TICKETS_PREFIX}${userId}`, ticket, id);
+        }
+      }
+      if (userQueue.data.length === 0) {
+        entries.delete(userQueueKey);
+        const ring = readAs(ACTIVE_USERS_KEY, 'list');
+        if (ring) {
+          ring.data = ring.data.filter((member) => member !== userId);
+          dropIfEmpty(ACTIVE_USERS_KEY);
+        }
+      }
+      return true;
+    },
+
+    // Sliding log: a request is allowed when fewer than maxRequests were
+    // allowed within the last window
+    async rateLimit(identifier) {
+      const now = Date.now();
+      const windowMs = windowSeconds * 1000;
+      const log = (rateLimitLog.get(identifier) || []).filter((timestamp) => timestamp > now - windowMs);
+
+      const success = log.length < maxRequests;
+      if (success) {
+        log.push(now);
+      }
+      rateLimitLog.set(identifier, log);
+
+      return {
+        success,
+        remaining: Math.max(maxRequests - log.length, 0),
+        reset: log.length > 0 ? log[0] + windowMs : now,
+      };
+    },
+  };
+}
+
+// Next.js may load this module more than once per process (route bundles, dev
+// hot reload); every copy must share the same queue
+const globalForQueue = globalThis as typeof globalThis & { __memoryQueueStore?: QueueStore };
+
+export function createMemoryQueueStore(rateLimit: RateLimitConfig): QueueStore {
+  if (!globalForQueue.__memoryQueueStore) {
+    globalForQueue.__memoryQueueStore = createStore(rateLimit);
+  }
+  return globalForQueue.__memoryQueueStore;
+}
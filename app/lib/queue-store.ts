@@ -0,0 +1,111 @@
+/**
+ * Queue Storage Backend
+ * The queue talks to its storage through QueueStore, so the same pipeline runs
+ * against Vercel KV in production and fully in memory locally and in tests.
+ */
+
+import { createKvQueueStore } from './queue-store-kv';
+import { createMemoryQueueStore } from './queue-store-memory';
+
+// Fair scheduling: every user has their own pending sub-queue, and the workers
+// serve users round-robin from ACTIVE_USERS_KEY (a ring of users with queued work)
+export const USER_QUEUE_PREFIX = 'queue:pending:';
+export const ACTIVE_USERS_KEY = 'queue:users';
+export const INFLIGHT_KEY = 'queue:inflight'; // Sorted set: member = jobId, score = lease deadline (ms)
+
+// Position tickets: every push onto a pending sub-queue takes a ticket from the
+// user's enqueue counter. The user's dequeue counter holds the ticket of the
+// last job that left the head of the sub-queue, and jobs removed from the
+// middle (cancelled) keep their tickets in a sorted set until the head passes
+// them. A job's place in its sub-queue is its ticket minus the head's ticket
+// minus the removed tickets ahead of it.
+// Globally, every push, pop and removal bumps its own counter, so the total
+// pending count is enqueued - dequeued - removed.
+export const ENQUEUED_SEQ_KEY = 'queue:seq:enqueued';
+export const DEQUEUED_SEQ_KEY = 'queue:seq:dequeued';
+export const REMOVED_SEQ_KEY = 'queue:seq:removed';
+export const REMOVED_TICKETS_PREFIX = 'queue:removed:'; // Sorted set per user: member = jobId, score = ticket
+
+export interface RateLimitConfig {
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  remaining: number;
+  reset: number;
+}
+
+export interface SetOptions {
+  ttlSeconds?: number;
+  // Only write when the key doesn't exist yet
+  onlyIfAbsent?: boolean;
+}
+
+/**
+ * Storage operations the queue needs. Values are stored as JSON; lists, sets
+ * and sorted sets hold plain strings. The fair-queue operations must be atomic.
+ */
+export interface QueueStore {
+  get<T = unknown>(key: string): Promise<T | null>;
+  // Read several keys in one round trip (MGET); missing keys come back as null
+  getMany<T = unknown>(keys: string[]): Promise<(T | null)[]>;
+  // Returns false when onlyIfAbsent is set and the key already exists
+  set(key: string, value: unknown, options?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  expire(key: string, ttlSeconds: number): Promise<void>;
+  // Delete the key only while it still holds the expected value (compare-and-delete)
+  delIfEquals(key: string, expected: string): Promise<boolean>;
+  incr(key: string): Promise<number>;
+  decr(key: string): Promise<number>;
+
+  // Lists: push to the front (newest first), like LPUSH
+  listPush(key: string, value: string): Promise<void>;
+  listRange(key: string, start: number, stop: number): Promise<string[]>;
+  // Keep only the items within the range, like LTRIM
+  listTrim(key: string, start: number, stop: number): Promise<void>;
+  listLength(key: string): Promise<number>;
+  listRemove(key: string, value: string): Promise<number>;
+  listIndexOf(key: string, value: string): Promise<number | null>;
+
+  setAdd(key: string, member: string): Promise<void>;
+  setRemove(key: string, member: string): Promise<void>;
+  setSize(key: string): Promise<number>;
+
+  sortedSetAdd(key: string, score: number, member: string): Promise<void>;
+  // Returns false when the member wasn't there, so only one caller can claim it
+  sortedSetRemove(key: string, member: string): Promise<boolean>;
+  sortedSetRangeByScore(key: string, min: number, max: number): Promise<string[]>;
+  sortedSetSize(key: string): Promise<number>;
+
+  // Append an item to its user's sub-queue; a user whose sub-queue was empty
+  // joins the back of the ring
+  pushPending(userId: string, item: { id: string; queueTicket?: number }): Promise<void>;
+  // Take the next user from the ring, pop their oldest item and register its
+  // lease in INFLIGHT_KEY. Users with more queued work go back to the end of the ring.
+  // Moves the user's dequeue counter to the item's ticket (see ENQUEUED_SEQ_KEY).
+  popPending<T extends { id: string }>(leaseExpiresAt: number): Promise<T | null>;
+  // Remove one item from its user's sub-queue. Only removing the head moves the
+  // dequeue counter; an item further back is recorded as a removed ticket.
+  removePending(userId: string, id: string): Promise<boolean>;
+
+  // Sliding-window rate limit shared by all workers
+  rateLimit(identifier: string): Promise<RateLimitResult>;
+}
+
+/**
+ * Pick the storage backend: QUEUE_STORE=kv|memory, defaulting to Vercel KV when
+ * it is configured and to memory otherwise
+ */
+export function createQueueStore(rateLimit: RateLimitConfig): QueueStore {
+  const backend = process.env.QUEUE_STORE || (process.env.KV_REST_API_URL ? 'kv' : 'memory');
+
+  if (backend === 'memory') {
+    console.log('[Queue] Using in-memory storage (jobs are lost on restart)');
+    return createMemoryQueueStore(rateLimit);
+  }
+
+  return createKvQueueStore(rateLimit);
+}
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Every test gets a fresh queue module, and with it an empty in-memory store
+let queue: typeof import('./queue');
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-15T12:00:00Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  // The store outlives module reloads (see createMemoryQueueStore), so drop it
+  delete (globalThis as { __memoryQueueStore?: unknown }).__memoryQueueStore;
+  vi.resetModules();
+  queue = await import('./queue');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function advance(seconds: number) {
+  vi.setSystemTime(Date.now() + seconds * 1000);
+}
+
+async function enqueue(userId: string, name: string, type: 'lyrics' | 'music' = 'lyrics') {
+  const { jobId } = await queue.enqueueJob({ userId, type, payload: { name } });
+  return jobId;
+}
+
+async function popAll(fencingToken?: number) {
+  const jobIds: string[] = [];
+  for (let job = await queue.processNextJob(fencingToken); job; job = await queue.processNextJob(fencingToken)) {
+    jobIds.push(job.id);
+  }
+  return jobIds;
+}
+
+describe('enqueue and dequeue', () => {
+  it('moves a job from pending through processing to completed', async () => {
+    const jobId = await enqueue('alice', 'first');
+    expect((await queue.getJobStatus(jobId))?.status).toBe('pending');
+
+    const job = await queue.processNextJob(1);
+    expect(job?.id).toBe(jobId);
+    expect(job?.attempts).toBe(1);
+    expect(await queue.getInFlightCount()).toBe(1);
+
+    await queue.completeJob(jobId, { lyrics: 'la la' }, 1);
+
+    expect((await queue.getJobStatus(jobId))?.status).toBe('completed');
+    expect(await queue.getJobResult(jobId)).toEqual({ lyrics: 'la la' });
+    expect(await queue.getInFlightCount()).toBe(0);
+    expect(await queue.getQueueSize()).toBe(0);
+  });
+
+  it('takes turns between users and keeps each user in order', async () => {
+    const a1 = await enqueue('alice', 'a1');
+    const a2 = await enqueue('alice', 'a2');
+    const a3 = await enqueue('alice', 'a3');
+    const b1 = await enqueue('bob', 'b1');
+
+    expect((await queue.getJobStatus(b1))?.queuePosition).toBe(2);
+    expect((await queue.getJobStatus(a3))?.queuePosition).toBe(4);
+
+    expect(await popAll()).toEqual([a1, b1, a2, a3]);
+  });
+
+  it('moves the jobs behind a job cancelled from the middle of the queue up', async () => {
+    const a1 = await enqueue('alice', 'a1');
+    const a2 = await enqueue('alice', 'a2');
+    const a3 = await enqueue('alice', 'a3');
+    const b1 = await enqueue('bob', 'b1');
+
+    expect((await queue.cancelJob(a2))?.outcome).toBe('cancelled');
+
+    expect((await queue.getJobStatus(a1))?.queuePosition).toBe(1);
+    expect((await queue.getJobStatus(b1))?.queuePosition).toBe(2);
+    expect((await queue.getJobStatus(a3))?.queuePosition).toBe(3);
+    expect(await queue.getQueueSize()).toBe(3);
+
+    expect(await popAll()).toEqual([a1, b1, a3]);
+    expect(await queue.getQueueSize()).toBe(0);
+  });
+
+  it('returns the existing job for a repeated idempotency key', async () => {
+    const first = await queue.enqueueJob(
+      { userId: 'alice', type: 'music', payload: { name: 'song' } },
+      { idempotencyKey: 'click-1' }
+    );
+    const repeat = await queue.enqueueJob(
+      { userId: 'alice', type: 'music', payload: { name: 'other' } },
+      { idempotencyKey: 'click-1' }
+    );
+
+    expect(repeat).toMatchObject({ jobId: first.jobId, duplicate: true });
+    expect(await queue.getQueueSize()).toBe(1);
+  });
+});
+
+describe('retries', () => {
+  it('schedules a failed job again once its backoff has elapsed', async () => {
+    const jobId = await enqueue('alice', 'flaky');
+    await queue.processNextJob(1);
+    await queue.failJob(jobId, 'Suno returned 503', undefined, 1);
+
+    const status = await queue.getJobStatus(jobId);
+    expect(status?.status).toBe('pending');
+    expect(status?.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(await queue.processNextJob(1)).toBeNull();
+
+    advance(60);
+    const retried = await queue.processNextJob(1);
+    expect(retried?.id).toBe(jobId);
+    expect(retried?.attempts).toBe(2);
+  });
+
+  it('moves a job that runs out of retries to the dead-letter queue', async () => {
+    const jobId = await enqueue('alice', 'broken');
+    const { maxRetries } = queue.getRetryPolicy('lyrics');
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      advance(60);
+      expect((await queue.processNextJob(1))?.id).toBe(jobId);
+      await queue.failJob(jobId, `failure ${attempt}`, undefined, 1);
+    }
+
+    expect((await queue.getJobStatus(jobId))?.status).toBe('failed');
+    const deadLetter = await queue.listDeadLetterJobs();
+    expect(deadLetter.total).toBe(1);
+    expect(deadLetter.jobs[0].attemptErrors?.map((entry) => entry.error)).toEqual([
+      'failure 1',
+      'failure 2',
+      'failure 3',
+    ]);
+
+    advance(60);
+    expect(await queue.processNextJob(1)).toBeNull();
+  });
+});
+
+describe('leases', () => {
+  it('returns a job whose lease expired to the queue, counting the attempt', async () => {
+    const jobId = await enqueue('alice', 'slow');
+    await queue.processNextJob(1);
+
+    advance(60);
+    expect(await queue.reapExpiredLeases()).toBe(0);
+
+    advance(120);
+    expect(await queue.reapExpiredLeases()).toBe(1);
+
+    const status = await queue.getJobStatus(jobId);
+    expect(status?.status).toBe('pending');
+    expect(status?.attempts).toBe(1);
+    expect(status?.queuePosition).toBe(1);
+    expect(await queue.getInFlightCount()).toBe(0);
+  });
+
+  it('drops writes from the worker whose lease was reaped', async () => {
+    const jobId = await enqueue('alice', 'contested');
+    await queue.processNextJob(1);
+    advance(180);
+    await queue.reapExpiredLeases();
+
+    // The stale worker finishes after all
+    await queue.completeJob(jobId, { from: 'stale' }, 1);
+    await queue.failJob(jobId, 'stale failure', undefined, 1);
+    let status = await queue.getJobStatus(jobId);
+    expect(status?.status).toBe('pending');
+    expect(status?.attemptErrors).toHaveLength(1);
+
+    const job = await queue.processNextJob(2);
+    expect(job?.id).toBe(jobId);
+    await queue.completeJob(jobId, { from: 'stale' }, 1);
+    await queue.completeJob(jobId, { from: 'current' }, 2);
+
+    status = await queue.getJobStatus(jobId);
+    expect(status?.status).toBe('completed');
+    expect(status?.attempts).toBe(2);
+    expect(await queue.getJobResult(jobId)).toEqual({ from: 'current' });
+  });
+
+  it('fails a job that keeps timing out once it runs out of retries', async () => {
+    const jobId = await enqueue('alice', 'stuck');
+    const { maxRetries } = queue.getRetryPolicy('lyrics');
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      expect((await queue.processNextJob(attempt))?.id).toBe(jobId);
+      advance(180);
+      await queue.reapExpiredLeases();
+    }
+
+    expect((await queue.getJobStatus(jobId))?.status).toBe('failed');
+    expect((await queue.listDeadLetterJobs()).total).toBe(1);
+  });
+
+  it('hands the worker lock to one run at a time, each with a newer token', async () => {
+    const lock = await queue.acquireWorkerLock(60);
+    expect(lock).not.toBeNull();
+    expect(await queue.acquireWorkerLock(60)).toBeNull();
+
+    advance(61);
+    const next = await queue.acquireWorkerLock(60);
+    expect(next?.token).toBeGreaterThan(lock!.token);
+    expect(await queue.isWorkerLockHeld(lock!)).toBe(false);
+  });
+});
+
+describe('quotas', () => {
+  it('limits unfinished jobs per user and frees a slot when one finishes', async () => {
+    const { maxConcurrentJobs } = queue.getUserQuotaConfig();
+    const jobIds: string[] = [];
+    for (let index = 0; index < maxConcurrentJobs; index++) {
+      jobIds.push(await enqueue('alice', `song ${index}`));
+    }
+
+    await expect(enqueue('alice', 'one too many')).rejects.toMatchObject({
+      name: 'QuotaExceededError',
+      limit: 'concurrent',
+    });
+    // Other users are unaffected
+    await enqueue('bob', 'song');
+
+    await queue.processNextJob(1);
+    await queue.completeJob(jobIds[0], {}, 1);
+    await enqueue('alice', 'one more');
+  });
+
+  it('limits jobs per user and day', async () => {
+    const { maxDailyJobs } = queue.getUserQuotaConfig();
+
+    for (let index = 0; index < maxDailyJobs; index++) {
+      const jobId = await enqueue('alice', `song ${index}`);
+      await queue.cancelJob(jobId);
+    }
+
+    await expect(enqueue('alice', 'tomorrow')).rejects.toMatchObject({ limit: 'daily' });
+
+    advance(24 * 3600);
+    await enqueue('alice', 'tomorrow');
+  });
+});
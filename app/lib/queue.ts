@@ -1,25 +1,68 @@
 /**
  * Queue Management System with Rate Limiting
- * Uses Vercel KV (Redis) for persistent job queue
+ * Uses Vercel KV (Redis) for persistent job queue, or memory for local runs
  */
 
-import { kv } from '@vercel/kv';
-import { Ratelimit } from '@upstash/ratelimit';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  ACTIVE_USERS_KEY,
+  DEQUEUED_SEQ_KEY,
+  ENQUEUED_SEQ_KEY,
+  INFLIGHT_KEY,
+  REMOVED_SEQ_KEY,
+  REMOVED_TICKETS_PREFIX,
+  createQueueStore,
+} from './queue-store';
 
 // Rate limiter: configurable via environment variables
 // Default: 20 requests per 10 seconds for Suno API
 const maxRequests = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '20', 10);
 const windowSeconds = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '10', 10);
 
-const ratelimit = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(maxRequests, `${windowSeconds} s`),
-  analytics: true,
-  prefix: 'suno-ratelimit',
-});
+// Storage backend (Vercel KV or in-memory), see queue-store.ts
+const store = createQueueStore({ maxRequests, windowSeconds });
 
 console.log(`[Queue] Rate limit configured: ${maxRequests} requests per ${windowSeconds} seconds`);
 
+// Visibility timeout: how long a dequeued job may stay in-flight before the
+// reaper assumes the worker died and hands the job back to the pending queue
+const visibilityTimeoutSeconds = parseInt(process.env.QUEUE_VISIBILITY_TIMEOUT_SECONDS || '120', 10);
+
+const SCHEDULED_KEY = 'queue:scheduled'; // Sorted set: member = jobId, score = next eligible time (ms)
+const DEAD_LETTER_KEY = 'queue:dead'; // List of jobIds that exhausted their retries (newest first)
+
+// Music jobs whose Suno task is running: the job keeps its 'processing' status
+// without a lease. Suno's callbacks normally finish the job; the worker also
+// checks the task's progress on this schedule in case a callback gets lost.
+const MUSIC_TASKS_KEY = 'queue:tasks'; // Sorted set: member = jobId, score = next status check (ms)
+const musicStatusIntervalSeconds = parseInt(process.env.QUEUE_MUSIC_STATUS_INTERVAL_SECONDS || '60', 10);
+
+// Append-only lifecycle log per job (list, newest first), kept well beyond the
+// job itself so support can still look into jobs that went missing
+const eventRetentionSeconds = parseInt(process.env.QUEUE_EVENT_RETENTION_SECONDS || '604800', 10);
+
+// Rolling samples behind the ETAs in job-metrics.ts (list per metric and
+// profile, newest first)
+const METRICS_PREFIX = 'metrics:';
+const maxMetricSamples = 50;
+
+// Callbacks that failed authentication (list, newest first), capped so a flood
+// of forged requests can't grow it without bound
+const REJECTED_CALLBACKS_KEY = 'callbacks:rejected';
+const maxRejectedCallbacks = 1000;
+
+// Worker lock: only one cron run may work the queue at a time. Every
+// acquisition takes a fresh fencing token from WORKER_FENCE_KEY.
+const WORKER_LOCK_KEY = 'queue:worker:lock';
+const WORKER_FENCE_KEY = 'queue:worker:fence';
+
+// Window in which a repeated enqueue request returns the original job
+const idempotencyWindowSeconds = parseInt(process.env.QUEUE_IDEMPOTENCY_WINDOW_SECONDS || '600', 10);
+
+// Per-user limits, enforced in enqueueJob
+const maxConcurrentJobsPerUser = parseInt(process.env.QUEUE_MAX_CONCURRENT_JOBS_PER_USER || '3', 10);
+const maxDailyJobsPerUser = parseInt(process.env.QUEUE_MAX_DAILY_JOBS_PER_USER || '30', 10);
+
 /**
  * Get current rate limit configuration
  */
@@ -30,24 +73,161 @@ export function getRateLimitConfig() {
   };
 }
 
+export type JobType = 'lyrics' | 'music';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+// Retry policy per job type, overridable via environment variables.
+// Music jobs back off longer because Suno rate limits and 5xx bursts last a while.
+const retryPolicies: Record<JobType, RetryPolicy> = {
+  lyrics: {
+    maxRetries: parseInt(process.env.QUEUE_LYRICS_MAX_RETRIES || '3', 10),
+    baseDelaySeconds: parseInt(process.env.QUEUE_LYRICS_RETRY_BASE_SECONDS || '5', 10),
+    maxDelaySeconds: parseInt(process.env.QUEUE_LYRICS_RETRY_MAX_SECONDS || '60', 10),
+  },
+  music: {
+    maxRetries: parseInt(process.env.QUEUE_MUSIC_MAX_RETRIES || '3', 10),
+    baseDelaySeconds: parseInt(process.env.QUEUE_MUSIC_RETRY_BASE_SECONDS || '30', 10),
+    maxDelaySeconds: parseInt(process.env.QUEUE_MUSIC_RETRY_MAX_SECONDS || '300', 10),
+  },
+};
+
+/**
+ * Get retry policy for a job type
+ */
+export function getRetryPolicy(type: JobType): RetryPolicy {
+  return retryPolicies[type];
+}
+
+/**
+ * Exponential backoff with jitter: half of the capped exponential delay is
+ * fixed, the other half is random, so retries spread out without collapsing to zero
+ */
+function getRetryDelayMs(policy: RetryPolicy, attempts: number): number {
+  const exponential = policy.baseDelaySeconds * Math.pow(2, Math.max(attempts - 1, 0));
+  const capped = Math.min(exponential, policy.maxDelaySeconds) * 1000;
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+export interface JobAttemptError {
+  attempt: number;
+  error: string;
+  failedAt: number;
+}
+
 export interface QueueJob {
   id: string;
   userId: string;
-  type: 'lyrics' | 'music';
+  type: JobType;
   payload: any;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   createdAt: number;
   attempts: number;
   error?: string;
+  leaseExpiresAt?: number;
+  nextAttemptAt?: number;
+  attemptErrors?: JobAttemptError[];
+  failedAt?: number;
+  queueTicket?: number;
+  cancelledAt?: number;
+  fencingToken?: number;
+  taskId?: string;
+  taskStartedAt?: number;
+  startedAt?: number; // Start of the current attempt
+}
+
+export type JobEventType =
+  | 'enqueued'
+  | 'dequeued'
+  | 'attempt_started'
+  | 'task_assigned'
+  | 'callback_received'
+  | 'progress'
+  | 'retried'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface JobEvent {
+  type: JobEventType;
+  at: number;
+  details?: Record<string, any>;
+}
+
+export type QuotaLimit = 'concurrent' | 'daily';
+
+/**
+ * Thrown by enqueueJob when a user hits one of their per-user limits
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly limit: QuotaLimit,
+    public readonly max: number,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(
+      limit === 'concurrent'
+        ? `You already have ${max} generations in progress. Please wait for one to finish.`
+        : `You have reached the limit of ${max} generations for today.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Get per-user quota configuration
+ */
+export function getUserQuotaConfig() {
+  return {
+    maxConcurrentJobs: maxConcurrentJobsPerUser,
+    maxDailyJobs: maxDailyJobsPerUser,
+  };
+}
+
+export interface EnqueueOptions {
+  // Client-supplied key (Idempotency-Key header); identical keys within the
+  // idempotency window map to the same job
+  idempotencyKey?: string;
 }
 
 /**
  * Add job to queue
+ * Repeat requests within the idempotency window return the existing job
+ * (duplicate: true) instead of creating a new one.
+ * Throws QuotaExceededError when the user is over their concurrent or daily limit
  */
 export async function enqueueJob(
-  job: Omit<QueueJob, 'id' | 'status' | 'createdAt' | 'attempts'>
-): Promise<string> {
-  const jobId = `job:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+  job: Omit<QueueJob, 'id' | 'status' | 'createdAt' | 'attempts'>,
+  options: EnqueueOptions = {}
+): Promise<{ jobId: string; duplicate: boolean; accessToken: string }> {
+  const jobId = `job:${randomUUID()}`;
+
+  // Claim the idempotency key for this job, or return the job that already holds it
+  const idempotencyKey = getIdempotencyKey(job, options.idempotencyKey);
+  const claimed = await store.set(idempotencyKey, jobId, {
+    onlyIfAbsent: true,
+    ttlSeconds: idempotencyWindowSeconds,
+  });
+  if (!claimed) {
+    const existingJobId = await store.get<string>(idempotencyKey);
+    if (existingJobId) {
+      console.log(`♻️ Duplicate enqueue request, returning existing job ${existingJobId}`);
+      const accessToken = await issueJobAccessToken(existingJobId);
+      return { jobId: existingJobId, duplicate: true, accessToken };
+    }
+  }
+
+  try {
+    await reserveUserQuota(job.userId, jobId);
+  } catch (error) {
+    // A rejected request must not block an identical retry once the quota frees up
+    await store.del(idempotencyKey);
+    throw error;
+  }
 
   const queueJob: QueueJob = {
     ...job,
@@ -57,22 +237,225 @@ export async function enqueueJob(
     attempts: 0,
   };
 
-  // Add to pending queue (FIFO)
-  await kv.lpush('queue:pending', JSON.stringify(queueJob));
+  // Issue the token before the job becomes visible, so its owner can always read it
+  const accessToken = await issueJobAccessToken(jobId);
 
-  // Store job details with 1 hour TTL
-  await kv.setex(`job:${jobId}`, 3600, JSON.stringify(queueJob));
+  // Add to pending queue (FIFO) and store job details
+  await pushPending(queueJob);
+  await recordJobEvent(jobId, 'enqueued', { type: job.type, userId: job.userId });
 
   console.log(`✅ Job ${jobId} enqueued (type: ${job.type})`);
-  return jobId;
+  return { jobId, duplicate: false, accessToken };
+}
+
+/**
+ * Create a random access token for a job. Only its hash is stored, one key
+ * per token, so a repeated enqueue request gets a token of its own.
+ */
+async function issueJobAccessToken(jobId: string): Promise<string> {
+  const accessToken = randomBytes(32).toString('base64url');
+  await store.set(`access:${jobId}:${hashAccessToken(accessToken)}`, '1', {
+    ttlSeconds: eventRetentionSeconds,
+  });
+  return accessToken;
+}
+
+function hashAccessToken(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('hex');
 }
 
 /**
- * Process next job from queue with rate limiting
+ * Check that an access token was issued for the job
  */
-export async function processNextJob(): Promise<QueueJob | null> {
+export async function verifyJobAccessToken(jobId: string, accessToken: string | null): Promise<boolean> {
+  if (!accessToken) {
+    return false;
+  }
+  return store.exists(`access:${jobId}:${hashAccessToken(accessToken)}`);
+}
+
+/**
+ * Check access tokens for several jobs in one read; returns which pairs are valid
+ */
+export async function verifyJobAccessTokens(
+  requests: Array<{ jobId: string; accessToken?: string | null }>
+): Promise<boolean[]> {
+  const grants = await store.getMany<string>(
+    requests.map(({ jobId, accessToken }) =>
+      `access:${jobId}:${accessToken ? hashAccessToken(accessToken) : 'none'}`
+    )
+  );
+  return requests.map(({ accessToken }, index) => Boolean(accessToken) && grants[index] !== null);
+}
+
+/**
+ * Build the per-user idempotency key for an enqueue request.
+ * Without a client key, a content hash of the job is used, so a double submit
+ * is caught anyway.
+ */
+function getIdempotencyKey(
+  job: Omit<QueueJob, 'id' | 'status' | 'createdAt' | 'attempts'>,
+  clientKey?: string
+): string {
+  if (clientKey) {
+    return `idempotency:${job.userId}:key:${clientKey}`;
+  }
+
+  const contentHash = createHash('sha256')
+    .update(JSON.stringify({ type: job.type, payload: job.payload }))
+    .digest('hex');
+  return `idempotency:${job.userId}:hash:${contentHash}`;
+}
+
+/**
+ * Reserve a concurrent slot and a daily slot for the user, or throw
+ */
+async function reserveUserQuota(userId: string, jobId: string): Promise<void> {
+  // Daily limit: counter per UTC day, incremented first so concurrent requests can't both slip through
+  const now = new Date();
+  const dailyKey = `quota:daily:${userId}:${now.toISOString().slice(0, 10)}`;
+  const secondsUntilMidnight = Math.ceil(
+    (Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()) / 1000
+  );
+
+  const dailyCount = await store.incr(dailyKey);
+  if (dailyCount === 1) {
+    await store.expire(dailyKey, secondsUntilMidnight + 60);
+  }
+  if (dailyCount > maxDailyJobsPerUser) {
+    await store.decr(dailyKey);
+    throw new QuotaExceededError('daily', maxDailyJobsPerUser, secondsUntilMidnight);
+  }
+
+  // Concurrent limit: set of the user's unfinished jobs
+  const activeKey = `quota:active:${userId}`;
+  await store.setAdd(activeKey, jobId);
+  await store.expire(activeKey, 3600);
+
+  const activeCount = await store.setSize(activeKey);
+  if (activeCount > maxConcurrentJobsPerUser) {
+    await store.setRemove(activeKey, jobId);
+    await store.decr(dailyKey);
+    throw new QuotaExceededError('concurrent', maxConcurrentJobsPerUser, 30);
+  }
+}
+
+/**
+ * Free the user's concurrent slot once a job reaches a terminal state
+ */
+async function releaseUserQuota(job: QueueJob): Promise<void> {
+  await store.setRemove(`quota:active:${job.userId}`, job.id);
+}
+
+/**
+ * Push a job onto the back of its user's pending sub-queue with a fresh
+ * position ticket and store its details with 1 hour TTL
+ */
+async function pushPending(job: QueueJob): Promise<void> {
+  job.status = 'pending';
+  job.queueTicket = await store.incr(`${ENQUEUED_SEQ_KEY}:${job.userId}`);
+  await store.incr(ENQUEUED_SEQ_KEY);
+
+  await store.pushPending(job.userId, job);
+  await saveJob(job);
+}
+
+/**
+ * Load a job's details
+ */
+async function loadJob(jobId: string): Promise<QueueJob | null> {
+  return store.get<QueueJob>(`job:${jobId}`);
+}
+
+/**
+ * The user a job was enqueued for, or null for unknown jobs
+ */
+export async function getJobOwner(jobId: string): Promise<string | null> {
+  const job = await loadJob(jobId);
+  return job?.userId ?? null;
+}
+
+/**
+ * getJobOwner for several jobs, read with a single MGET
+ */
+export async function getJobOwners(jobIds: string[]): Promise<Array<string | null>> {
+  const jobs = await store.getMany<QueueJob>(jobIds.map((jobId) => `job:${jobId}`));
+  return jobs.map((job) => job?.userId ?? null);
+}
+
+/**
+ * Store a job's details with 1 hour TTL
+ */
+async function saveJob(job: QueueJob): Promise<void> {
+  await store.set(`job:${job.id}`, job, { ttlSeconds: 3600 });
+}
+
+export interface WorkerLock {
+  token: number;
+  expiresAt: number;
+}
+
+/**
+ * Take the worker lock for ttlSeconds, or return null when another run holds it.
+ * The lease expires on its own, so a run that crashes can't block the queue.
+ */
+export async function acquireWorkerLock(ttlSeconds: number): Promise<WorkerLock | null> {
+  const token = await store.incr(WORKER_FENCE_KEY);
+  const acquired = await store.set(WORKER_LOCK_KEY, String(token), {
+    onlyIfAbsent: true,
+    ttlSeconds,
+  });
+
+  if (!acquired) {
+    return null;
+  }
+
+  console.log(`🔒 Worker lock acquired (token ${token}, ${ttlSeconds}s lease)`);
+  return { token, expiresAt: Date.now() + ttlSeconds * 1000 };
+}
+
+/**
+ * Check that the lock still belongs to this run (its lease may have expired
+ * and been taken by a newer run)
+ */
+export async function isWorkerLockHeld(lock: WorkerLock): Promise<boolean> {
+  const holder = await store.get<number>(WORKER_LOCK_KEY);
+  return Number(holder) === lock.token;
+}
+
+/**
+ * Release the worker lock, unless it has already passed to another run
+ */
+export async function releaseWorkerLock(lock: WorkerLock): Promise<void> {
+  const released = await store.delIfEquals(WORKER_LOCK_KEY, String(lock.token));
+  if (!released) {
+    console.warn(`⚠️ Worker lock token ${lock.token} was no longer held at release`);
+  }
+}
+
+/**
+ * A worker whose fencing token is older than the one on the job lost the job:
+ * its lease expired (the reaper bumps the token) and the job may have been
+ * handed out again, so its writes must be dropped
+ */
+function isStaleWorker(job: QueueJob, fencingToken?: number): boolean {
+  return fencingToken !== undefined && job.fencingToken !== undefined && fencingToken < job.fencingToken;
+}
+
+/**
+ * Process next job from queue with rate limiting.
+ * The worker's fencing token is stamped on the job, so completeJob and failJob
+ * can reject writes from a run that has since been superseded.
+ */
+export async function processNextJob(fencingToken?: number): Promise<QueueJob | null> {
+  // Return jobs whose worker crashed or timed out before picking new work
+  await reapExpiredLeases();
+
+  // Move retries whose backoff has elapsed back into the pending queue
+  await promoteScheduledJobs();
+
   // Check rate limit
-  const { success, remaining, reset } = await ratelimit.limit('suno-api');
+  const { success, remaining, reset } = await store.rateLimit('suno-api');
 
   if (!success) {
     const waitTime = Math.ceil((reset - Date.now()) / 1000);
@@ -82,128 +465,817 @@ export async function processNextJob(): Promise<QueueJob | null> {
     return null;
   }
 
-  // Pop job from queue (FIFO - right pop)
-  const jobData = await kv.rpop('queue:pending');
+  // Pop the next user's oldest job (round-robin across users, FIFO within a
+  // user) and move it in-flight with a lease. Jobs cancelled while being
+  // popped are finalized and skipped.
+  while (true) {
+    const leaseExpiresAt = Date.now() + visibilityTimeoutSeconds * 1000;
+    const job = await store.popPending<QueueJob>(leaseExpiresAt);
 
-  if (!jobData) {
-    return null;
+    if (!job) {
+      return null;
+    }
+
+    if (await isCancelRequested(job.id)) {
+      await markJobCancelled(job);
+      console.log(`🚫 Skipping cancelled job ${job.id}`);
+      continue;
+    }
+
+    // Update job status
+    job.status = 'processing';
+    job.attempts += 1;
+    job.leaseExpiresAt = leaseExpiresAt;
+    job.queueTicket = undefined;
+    job.fencingToken = fencingToken;
+    job.startedAt = Date.now();
+    await saveJob(job);
+    await recordJobEvent(job.id, 'dequeued', { attempt: job.attempts, leaseExpiresAt, fencingToken });
+
+    // Retries wait out their backoff, which says nothing about the queue
+    if (job.attempts === 1) {
+      await recordMetricSample('queue_wait', job.type, job.startedAt - job.createdAt);
+    }
+
+    console.log(`🔄 Processing job ${job.id} (attempt ${job.attempts})`);
+    return job;
   }
+}
 
-  const job: QueueJob = typeof jobData === 'string' ? JSON.parse(jobData) : (jobData as QueueJob);
+/**
+ * Move jobs with expired leases back to the pending queue.
+ * The dequeue that produced the lease already counted as an attempt, so a job
+ * that keeps timing out is failed once it runs out of retries.
+ */
+export async function reapExpiredLeases(): Promise<number> {
+  const expiredJobIds = await store.sortedSetRangeByScore(INFLIGHT_KEY, 0, Date.now());
 
-  // Update job status
-  job.status = 'processing';
-  job.attempts += 1;
-  await kv.setex(`job:${job.id}`, 3600, JSON.stringify(job));
+  if (expiredJobIds.length === 0) {
+    return 0;
+  }
 
-  console.log(`🔄 Processing job ${job.id} (attempt ${job.attempts})`);
-  return job;
+  let reaped = 0;
+
+  for (const jobId of expiredJobIds) {
+    // Only the caller that actually removes the lease may requeue the job
+    const removed = await store.sortedSetRemove(INFLIGHT_KEY, jobId);
+    if (!removed) {
+      continue;
+    }
+
+    const job = await loadJob(jobId);
+    if (!job) {
+      console.warn(`⚠️ Lease expired for job ${jobId}, but the job no longer exists`);
+      continue;
+    }
+
+    if (await isCancelRequested(jobId)) {
+      await markJobCancelled(job);
+      reaped++;
+      continue;
+    }
+
+    const { maxRetries } = getRetryPolicy(job.type);
+    job.leaseExpiresAt = undefined;
+    // Fence off the worker that let the lease expire, so its late writes are
+    // dropped. Tokens only grow, so the next worker's token still passes.
+    if (job.fencingToken !== undefined) {
+      job.fencingToken += 1;
+    }
+    recordAttemptError(job, `Lease expired after ${visibilityTimeoutSeconds}s (attempt ${job.attempts})`);
+
+    if (job.attempts < maxRetries) {
+      await pushPending(job);
+      await recordJobEvent(jobId, 'retried', { attempt: job.attempts, error: job.error });
+      console.warn(`♻️ Job ${jobId} lease expired, returned to queue (attempt ${job.attempts}/${maxRetries})`);
+    } else {
+      await moveToDeadLetter(job);
+      await recordJobEvent(jobId, 'failed', { attempts: job.attempts, error: job.error });
+      console.error(`❌ Job ${jobId} lease expired on its last attempt, moved to dead-letter queue`);
+    }
+
+    reaped++;
+  }
+
+  return reaped;
+}
+
+/**
+ * Move scheduled retries whose backoff has elapsed into the pending queue
+ */
+export async function promoteScheduledJobs(): Promise<number> {
+  const dueJobIds = await store.sortedSetRangeByScore(SCHEDULED_KEY, 0, Date.now());
+
+  if (dueJobIds.length === 0) {
+    return 0;
+  }
+
+  let promoted = 0;
+
+  for (const jobId of dueJobIds) {
+    // Only the caller that actually removes the entry may promote the job
+    const removed = await store.sortedSetRemove(SCHEDULED_KEY, jobId);
+    if (!removed) {
+      continue;
+    }
+
+    const job = await loadJob(jobId);
+    if (!job) {
+      console.warn(`⚠️ Scheduled retry for job ${jobId} is due, but the job no longer exists`);
+      continue;
+    }
+
+    job.nextAttemptAt = undefined;
+    await pushPending(job);
+    promoted++;
+  }
+
+  if (promoted > 0) {
+    console.log(`⏰ Promoted ${promoted} scheduled retr${promoted === 1 ? 'y' : 'ies'} to the pending queue`);
+  }
+
+  return promoted;
+}
+
+/**
+ * Release a job's in-flight lease (called once the worker is done with it)
+ */
+async function releaseLease(jobId: string): Promise<void> {
+  await store.sortedSetRemove(INFLIGHT_KEY, jobId);
 }
 
 /**
  * Mark job as completed
  */
-export async function completeJob(jobId: string, result: any): Promise<void> {
-  const jobData = await kv.get(`job:${jobId}`);
+export async function completeJob(jobId: string, result: any, fencingToken?: number): Promise<void> {
+  const job = await loadJob(jobId);
 
-  if (!jobData) {
+  if (!job) {
     console.warn(`⚠️ Job ${jobId} not found`);
     return;
   }
 
-  const job: QueueJob = typeof jobData === 'string' ? JSON.parse(jobData) : jobData;
+  if (isStaleWorker(job, fencingToken)) {
+    console.warn(`⚠️ Job ${jobId} was handed to a newer worker, result from token ${fencingToken} discarded`);
+    return;
+  }
+
+  // Callbacks and status checks may both report the same finished task
+  if (isFinished(job)) {
+    console.log(`ℹ️ Job ${jobId} already ${job.status}, completion ignored`);
+    return;
+  }
+
+  // The owner gave up on the job while it was running: drop the result
+  if (await isCancelRequested(jobId)) {
+    await markJobCancelled(job);
+    console.log(`🚫 Job ${jobId} finished after cancellation, result discarded`);
+    return;
+  }
+
   job.status = 'completed';
+  job.leaseExpiresAt = undefined;
+  await releaseLease(jobId);
+  await store.sortedSetRemove(MUSIC_TASKS_KEY, jobId);
+  await releaseUserQuota(job);
 
   // Store updated job and result with 1 hour TTL
-  await kv.setex(`job:${jobId}`, 3600, JSON.stringify(job));
-  await kv.setex(`result:${jobId}`, 3600, JSON.stringify(result));
+  await saveJob(job);
+  await store.set(`result:${jobId}`, result, { ttlSeconds: 3600 });
+  await recordJobEvent(jobId, 'completed', { attempt: job.attempts });
+
+  if (job.startedAt) {
+    await recordMetricSample('completed', getJobProfile(job), Date.now() - job.startedAt);
+  }
 
   console.log(`✅ Job ${jobId} completed`);
 }
 
 /**
- * Mark job as failed and retry if attempts < maxRetries
+ * Mark job as failed and schedule a delayed retry if attempts < maxRetries.
+ * maxRetries defaults to the job type's retry policy.
  */
 export async function failJob(
   jobId: string,
   error: string,
-  maxRetries = 3
+  maxRetries?: number,
+  fencingToken?: number
 ): Promise<void> {
-  const jobData = await kv.get(`job:${jobId}`);
+  const job = await loadJob(jobId);
 
-  if (!jobData) {
+  if (!job) {
     console.warn(`⚠️ Job ${jobId} not found`);
     return;
   }
 
-  const job: QueueJob = typeof jobData === 'string' ? JSON.parse(jobData) : jobData;
-  job.error = error;
+  if (isStaleWorker(job, fencingToken)) {
+    console.warn(`⚠️ Job ${jobId} was handed to a newer worker, failure from token ${fencingToken} ignored`);
+    return;
+  }
 
-  if (job.attempts < maxRetries) {
-    // Retry: add back to queue
+  if (isFinished(job)) {
+    console.log(`ℹ️ Job ${jobId} already ${job.status}, failure ignored`);
+    return;
+  }
+
+  // No point retrying a job its owner already gave up on
+  if (await isCancelRequested(jobId)) {
+    await markJobCancelled(job);
+    console.log(`🚫 Job ${jobId} failed after cancellation, not retrying`);
+    return;
+  }
+
+  const policy = getRetryPolicy(job.type);
+  const retryLimit = maxRetries ?? policy.maxRetries;
+  job.leaseExpiresAt = undefined;
+  recordAttemptError(job, error);
+  await releaseLease(jobId);
+  await store.sortedSetRemove(MUSIC_TASKS_KEY, jobId);
+  // Partial results belong to the failed attempt
+  await store.del(`result:${jobId}`);
+
+  if (job.attempts < retryLimit) {
+    // Retry: schedule the job once its backoff has elapsed
+    const delayMs = getRetryDelayMs(policy, job.attempts);
     job.status = 'pending';
-    await kv.lpush('queue:pending', JSON.stringify(job));
-    await kv.setex(`job:${jobId}`, 3600, JSON.stringify(job));
+    job.nextAttemptAt = Date.now() + delayMs;
+    await store.sortedSetAdd(SCHEDULED_KEY, job.nextAttemptAt, jobId);
+    await saveJob(job);
+    await recordJobEvent(jobId, 'retried', {
+      attempt: job.attempts,
+      error,
+      nextAttemptAt: job.nextAttemptAt,
+    });
     console.log(
-      `🔄 Job ${jobId} will retry (attempt ${job.attempts + 1}/${maxRetries})`
+      `🔄 Job ${jobId} will retry in ${Math.ceil(delayMs / 1000)}s (attempt ${job.attempts + 1}/${retryLimit})`
     );
   } else {
     // Max retries reached
-    job.status = 'failed';
-    await kv.setex(`job:${jobId}`, 3600, JSON.stringify(job));
-    await kv.setex(`error:${jobId}`, 3600, error);
-    console.error(`❌ Job ${jobId} failed after ${maxRetries} attempts: ${error}`);
+    await moveToDeadLetter(job);
+    await recordJobEvent(jobId, 'failed', { attempts: job.attempts, error });
+    console.error(`❌ Job ${jobId} failed after ${retryLimit} attempts: ${error}`);
   }
 }
 
 /**
- * Get job status with queue position
+ * Whether the job has reached a terminal state
+ */
+function isFinished(job: QueueJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Record the error of the current attempt on the job
  */
-export async function getJobStatus(jobId: string): Promise<(QueueJob & { queuePosition?: number }) | null> {
-  const jobData = await kv.get(`job:${jobId}`);
+function recordAttemptError(job: QueueJob, error: string): void {
+  job.error = error;
+  job.attemptErrors = [
+    ...(job.attemptErrors || []),
+    { attempt: job.attempts, error, failedAt: Date.now() },
+  ];
+}
+
+/**
+ * Mark job as permanently failed and keep it in the dead-letter queue.
+ * Dead-letter entries have no TTL so they can be inspected and replayed later.
+ */
+async function moveToDeadLetter(job: QueueJob): Promise<void> {
+  job.status = 'failed';
+  job.failedAt = Date.now();
+  await releaseUserQuota(job);
+
+  await saveJob(job);
+  await store.set(`error:${job.id}`, job.error || 'Job failed', { ttlSeconds: 3600 });
+  await store.set(`dead:${job.id}`, job);
+  await store.listPush(DEAD_LETTER_KEY, job.id);
+}
 
-  if (!jobData) {
+export type CancelOutcome = 'cancelled' | 'cancel_requested' | 'already_finished';
+
+/**
+ * Cancel a job on behalf of its owner (the caller checks the job's access token).
+ * Pending jobs (queued or waiting out a retry) are removed right away; jobs a
+ * worker is processing are flagged so the worker drops them cooperatively.
+ * Returns null when the job doesn't exist.
+ */
+export async function cancelJob(
+  jobId: string
+): Promise<{ job: QueueJob; outcome: CancelOutcome } | null> {
+  const job = await loadJob(jobId);
+
+  if (!job) {
     return null;
   }
 
-  const job: QueueJob = typeof jobData === 'string' ? JSON.parse(jobData) : (jobData as QueueJob);
+  if (isFinished(job)) {
+    return { job, outcome: 'already_finished' };
+  }
+
+  // Flag first, so a worker popping the job concurrently sees the cancellation
+  await store.set(`cancel:${jobId}`, '1', { ttlSeconds: 3600 });
+
+  if (job.status === 'pending') {
+    const removedFromQueue = await store.removePending(job.userId, jobId);
+    const removedFromSchedule = await store.sortedSetRemove(SCHEDULED_KEY, jobId);
+
+    if (removedFromQueue || removedFromSchedule) {
+      await markJobCancelled(job);
+      console.log(`🚫 Job ${jobId} cancelled while pending`);
+      return { job, outcome: 'cancelled' };
+    }
+  }
+
+  // Already handed to a worker: it will skip or discard the job
+  console.log(`🚫 Cancellation requested for job ${jobId} (status: ${job.status})`);
+  return { job, outcome: 'cancel_requested' };
+}
+
+/**
+ * Check whether the owner asked to cancel the job
+ */
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+  return store.exists(`cancel:${jobId}`);
+}
+
+/**
+ * Put a job in its terminal cancelled state and free everything it holds
+ */
+export async function markJobCancelled(job: QueueJob): Promise<void> {
+  const previousStatus = job.status;
+  job.status = 'cancelled';
+  job.cancelledAt = Date.now();
+  job.leaseExpiresAt = undefined;
+  job.nextAttemptAt = undefined;
+  job.queueTicket = undefined;
+
+  await releaseLease(job.id);
+  await store.sortedSetRemove(SCHEDULED_KEY, job.id);
+  await store.sortedSetRemove(MUSIC_TASKS_KEY, job.id);
+  await releaseUserQuota(job);
+  await saveJob(job);
+  await recordJobEvent(job.id, 'cancelled', { previousStatus });
+}
+
+/**
+ * List dead-letter jobs, newest first
+ */
+export async function listDeadLetterJobs(
+  offset = 0,
+  limit = 20
+): Promise<{ total: number; jobs: QueueJob[] }> {
+  const total = await store.listLength(DEAD_LETTER_KEY);
+  const jobIds = await store.listRange(DEAD_LETTER_KEY, offset, offset + limit - 1);
+
+  const jobs: QueueJob[] = [];
+  for (const jobId of jobIds) {
+    const job = await getDeadLetterJob(jobId);
+    if (job) {
+      jobs.push(job);
+    }
+  }
+
+  return { total, jobs };
+}
+
+/**
+ * Get a single dead-letter job with its full payload and attempt errors
+ */
+export async function getDeadLetterJob(jobId: string): Promise<QueueJob | null> {
+  return store.get<QueueJob>(`dead:${jobId}`);
+}
+
+/**
+ * Re-enqueue a dead-letter job with its attempts reset.
+ * The attempt errors are kept so the history of the job stays visible.
+ */
+export async function replayDeadLetterJob(jobId: string): Promise<QueueJob | null> {
+  const job = await getDeadLetterJob(jobId);
+
+  if (!job) {
+    return null;
+  }
+
+  job.attempts = 0;
+  job.error = undefined;
+  job.failedAt = undefined;
+  job.nextAttemptAt = undefined;
+
+  await purgeDeadLetterJob(jobId);
+  await pushPending(job);
+  await recordJobEvent(jobId, 'enqueued', { type: job.type, userId: job.userId, replayed: true });
+  await store.del(`error:${jobId}`);
+
+  console.log(`♻️ Dead-letter job ${jobId} replayed`);
+  return job;
+}
+
+/**
+ * Remove a job from the dead-letter queue
+ */
+export async function purgeDeadLetterJob(jobId: string): Promise<boolean> {
+  const removed = await store.listRemove(DEAD_LETTER_KEY, jobId);
+  await store.del(`dead:${jobId}`);
+  return removed > 0;
+}
+
+/**
+ * Remove every job from the dead-letter queue
+ */
+export async function purgeDeadLetterQueue(): Promise<number> {
+  const jobIds = await store.listRange(DEAD_LETTER_KEY, 0, -1);
+
+  await store.del(...jobIds.map((jobId) => `dead:${jobId}`), DEAD_LETTER_KEY);
+
+  console.log(`🗑️ Purged ${jobIds.length} dead-letter jobs`);
+  return jobIds.length;
+}
+
+/**
+ * Append an event to a job's lifecycle log.
+ * Logging must never break the pipeline, so storage errors are only reported.
+ */
+export async function recordJobEvent(
+  jobId: string,
+  type: JobEventType,
+  details?: Record<string, any>
+): Promise<void> {
+  const event: JobEvent = { type, at: Date.now(), details };
+
+  try {
+    await store.listPush(`events:${jobId}`, JSON.stringify(event));
+    await store.expire(`events:${jobId}`, eventRetentionSeconds);
+  } catch (error) {
+    console.error(`Error recording ${type} event for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Get a job's lifecycle events, oldest first
+ */
+export async function getJobEvents(jobId: string): Promise<JobEvent[]> {
+  const entries = await store.listRange(`events:${jobId}`, 0, -1);
+  return entries.map((entry) => JSON.parse(entry) as JobEvent).reverse();
+}
+
+/**
+ * Number of events recorded for a job; a cheap way to tell whether anything
+ * happened to it since the last look
+ */
+export async function getJobEventCount(jobId: string): Promise<number> {
+  return store.listLength(`events:${jobId}`);
+}
+
+/**
+ * Link the external (Suno) task id to the job, so callbacks for the task can be
+ * traced back to it
+ */
+export async function assignExternalTask(jobId: string, taskId: string): Promise<void> {
+  await store.set(`task:${taskId}`, jobId, { ttlSeconds: eventRetentionSeconds });
+  await recordJobEvent(jobId, 'task_assigned', { taskId });
+}
+
+/**
+ * Hand a music job over to its Suno task: the job stays 'processing' until the
+ * task finishes, but releases its lease so the reaper leaves it alone, and is
+ * scheduled for status checks instead
+ */
+export async function awaitMusicTask(jobId: string, taskId: string, fencingToken?: number): Promise<void> {
+  const job = await loadJob(jobId);
+
+  if (!job) {
+    console.warn(`⚠️ Job ${jobId} not found`);
+    return;
+  }
+
+  if (isStaleWorker(job, fencingToken)) {
+    console.warn(`⚠️ Job ${jobId} was handed to a newer worker, task ${taskId} from token ${fencingToken} ignored`);
+    return;
+  }
+
+  job.taskId = taskId;
+  job.taskStartedAt = Date.now();
+  job.leaseExpiresAt = undefined;
+  await releaseLease(jobId);
+  await saveJob(job);
+  await assignExternalTask(jobId, taskId);
+  await scheduleMusicStatusCheck(jobId);
+
+  console.log(`⏳ Job ${jobId} waiting on Suno task ${taskId}`);
+}
+
+/**
+ * Check the job's Suno task again after the status interval
+ */
+export async function scheduleMusicStatusCheck(jobId: string): Promise<void> {
+  await store.sortedSetAdd(MUSIC_TASKS_KEY, Date.now() + musicStatusIntervalSeconds * 1000, jobId);
+}
+
+/**
+ * Music jobs whose Suno task is due for a status check, oldest first
+ */
+export async function getDueMusicTasks(limit: number): Promise<QueueJob[]> {
+  const dueJobIds = (await store.sortedSetRangeByScore(MUSIC_TASKS_KEY, 0, Date.now())).slice(0, limit);
+
+  const jobs: QueueJob[] = [];
+  for (const jobId of dueJobIds) {
+    const job = await loadJob(jobId);
+    if (!job || job.status !== 'processing' || !job.taskId) {
+      await store.sortedSetRemove(MUSIC_TASKS_KEY, jobId);
+      continue;
+    }
+    jobs.push(job);
+  }
+
+  return jobs;
+}
+
+export type CallbackStage = 'text' | 'first' | 'complete' | 'error';
+
+export interface CallbackStageRecord {
+  receivedAt: number;
+  message?: string;
+  tracks: any[];
+}
+
+const CALLBACK_STAGES: CallbackStage[] = ['text', 'first', 'complete', 'error'];
+
+/**
+ * Whether a callbackType sent by Suno is one of the stages we know
+ */
+export function isCallbackStage(value: unknown): value is CallbackStage {
+  return CALLBACK_STAGES.includes(value as CallbackStage);
+}
+
+/**
+ * Store a callback stage of an external task. Returns false when the stage was
+ * already recorded, so a redelivered callback is processed only once.
+ */
+export async function claimCallbackStage(
+  taskId: string,
+  stage: CallbackStage,
+  record: CallbackStageRecord
+): Promise<boolean> {
+  return store.set(`callback:${taskId}:${stage}`, record, {
+    onlyIfAbsent: true,
+    ttlSeconds: eventRetentionSeconds,
+  });
+}
+
+/**
+ * Forget a claimed callback stage whose processing failed, so Suno's retry of
+ * the callback is processed instead of dropped as a duplicate
+ */
+export async function releaseCallbackStage(taskId: string, stage: CallbackStage): Promise<void> {
+  await store.del(`callback:${taskId}:${stage}`);
+}
+
+/**
+ * Get every callback stage recorded for an external task
+ */
+export async function getCallbackStages(
+  taskId: string
+): Promise<Partial<Record<CallbackStage, CallbackStageRecord>>> {
+  const records = await Promise.all(
+    CALLBACK_STAGES.map((stage) => store.get<CallbackStageRecord>(`callback:${taskId}:${stage}`))
+  );
+
+  const stages: Partial<Record<CallbackStage, CallbackStageRecord>> = {};
+  CALLBACK_STAGES.forEach((stage, index) => {
+    const record = records[index];
+    if (record) {
+      stages[stage] = record;
+    }
+  });
+  return stages;
+}
+
+/**
+ * Store the partial result of a job that is still running (e.g. stream URLs
+ * that are ready before the full quality audio)
+ */
+export async function saveJobProgress(jobId: string, result: any): Promise<void> {
+  // A late progress update must not replace the final result
+  const job = await loadJob(jobId);
+  if (!job || job.status !== 'processing') {
+    return;
+  }
+
+  const previous = await store.get<any>(`result:${jobId}`);
+  await store.set(`result:${jobId}`, result, { ttlSeconds: 3600 });
+
+  if (previous?.stage !== result?.stage) {
+    await recordJobEvent(jobId, 'progress', { stage: result?.stage });
+
+    if (result?.stage === 'stream' && job.startedAt) {
+      await recordMetricSample('stream_ready', getJobProfile(job), Date.now() - job.startedAt);
+    }
+  }
+}
+
+/**
+ * Find the job an external (Suno) task id belongs to
+ */
+export async function findJobIdByTaskId(taskId: string): Promise<string | null> {
+  return store.get<string>(`task:${taskId}`);
+}
+
+export type MetricName =
+  | 'queue_wait' // Enqueue to first dequeue (ms), per job type
+  | 'stream_ready' // Attempt start to stream preview (ms), per job profile
+  | 'completed' // Attempt start to completion (ms), per job profile
+  | 'worker_run' // Jobs started by a cron run, one sample per run
+  | 'worker_capacity'; // Jobs started by a cron run that didn't run out of work
+
+export interface MetricSample {
+  at: number;
+  value: number;
+}
+
+/**
+ * Profile a job's timings are tracked under: the job type, plus the Suno
+ * model for music jobs (e.g. 'music:V4_5ALL')
+ */
+export function getJobProfile(job: Pick<QueueJob, 'type' | 'payload'>): string {
+  if (job.type === 'music') {
+    return `music:${job.payload?.requestBody?.model || 'default'}`;
+  }
+  return job.type;
+}
+
+/**
+ * Add a sample to a rolling metric (only the latest samples are kept)
+ */
+export async function recordMetricSample(metric: MetricName, profile: string, value: number): Promise<void> {
+  const key = `${METRICS_PREFIX}${metric}:${profile}`;
+
+  try {
+    await store.listPush(key, JSON.stringify({ at: Date.now(), value }));
+    await store.listTrim(key, 0, maxMetricSamples - 1);
+  } catch (error) {
+    console.error(`Error recording ${metric} sample for ${profile}:`, error);
+  }
+}
+
+/**
+ * Get the samples of a rolling metric, newest first
+ */
+export async function getMetricSamples(metric: MetricName, profile: string): Promise<MetricSample[]> {
+  const entries = await store.listRange(`${METRICS_PREFIX}${metric}:${profile}`, 0, -1);
+  return entries.map((entry) => JSON.parse(entry) as MetricSample);
+}
+
+export interface RejectedCallback {
+  at: number;
+  route: string;
+  reason: string;
+  jobId?: string;
+  taskId?: string;
+  callbackType?: string;
+  ip?: string;
+}
+
+/**
+ * Accept a signed callback delivery once. Returns false when the same token
+ * already delivered this callback type, i.e. the request is a replay.
+ */
+export async function claimCallbackDelivery(
+  signature: string,
+  callbackType: string,
+  ttlSeconds: number
+): Promise<boolean> {
+  return store.set(`callback:delivery:${signature}:${callbackType}`, Date.now(), {
+    onlyIfAbsent: true,
+    ttlSeconds: Math.max(ttlSeconds, 1),
+  });
+}
+
+/**
+ * Undo claimCallbackDelivery for a delivery that failed to process, so the
+ * retried delivery isn't rejected as a replay
+ */
+export async function releaseCallbackDelivery(signature: string, callbackType: string): Promise<void> {
+  await store.del(`callback:delivery:${signature}:${callbackType}`);
+}
+
+/**
+ * Log a callback that failed authentication (kept capped, newest first)
+ */
+export async function recordRejectedCallback(attempt: Omit<RejectedCallback, 'at'>): Promise<void> {
+  try {
+    await store.listPush(REJECTED_CALLBACKS_KEY, JSON.stringify({ ...attempt, at: Date.now() }));
+    await store.listTrim(REJECTED_CALLBACKS_KEY, 0, maxRejectedCallbacks - 1);
+  } catch (error) {
+    console.error('Error recording rejected callback:', error);
+  }
+}
+
+/**
+ * List rejected callbacks, newest first
+ */
+export async function listRejectedCallbacks(
+  offset = 0,
+  limit = 20
+): Promise<{ total: number; attempts: RejectedCallback[] }> {
+  const total = await store.listLength(REJECTED_CALLBACKS_KEY);
+  const entries = await store.listRange(REJECTED_CALLBACKS_KEY, offset, offset + limit - 1);
+  return { total, attempts: entries.map((entry) => JSON.parse(entry) as RejectedCallback) };
+}
+
+/**
+ * Get job status with queue position
+ */
+export async function getJobStatus(
+  jobId: string
+): Promise<(QueueJob & { queuePosition?: number; cancelRequested?: boolean }) | null> {
+  const job = await loadJob(jobId);
+
+  if (!job) {
+    return null;
+  }
 
   // If job is pending, calculate its position in the queue
   if (job.status === 'pending') {
-    const queuePosition = await getJobQueuePosition(jobId);
+    const queuePosition = await getJobQueuePosition(job);
     return { ...job, queuePosition };
   }
 
+  if (job.status === 'processing') {
+    const cancelRequested = await isCancelRequested(jobId);
+    return { ...job, cancelRequested };
+  }
+
   return job;
 }
 
 /**
- * Get job's position in the queue (1-based index)
+ * Get the status (as getJobStatus) and stored result of several jobs at once.
+ * Job records, results and cancel flags are each read with a single MGET.
+ * Unknown jobs come back as null, in the order of jobIds.
  */
-async function getJobQueuePosition(jobId: string): Promise<number | undefined> {
+export async function getJobStatuses(
+  jobIds: string[]
+): Promise<Array<{ status: QueueJob & { queuePosition?: number; cancelRequested?: boolean }; result: any } | null>> {
+  const [jobs, results, cancelFlags] = await Promise.all([
+    store.getMany<QueueJob>(jobIds.map((jobId) => `job:${jobId}`)),
+    store.getMany<any>(jobIds.map((jobId) => `result:${jobId}`)),
+    store.getMany<string>(jobIds.map((jobId) => `cancel:${jobId}`)),
+  ]);
+
+  return Promise.all(
+    jobs.map(async (job, index) => {
+      if (!job) {
+        return null;
+      }
+
+      const result = results[index];
+
+      if (job.status === 'pending') {
+        const queuePosition = await getJobQueuePosition(job);
+        return { status: { ...job, queuePosition }, result };
+      }
+
+      if (job.status === 'processing') {
+        return { status: { ...job, cancelRequested: cancelFlags[index] !== null }, result };
+      }
+
+      return { status: job, result };
+    })
+  );
+}
+
+/**
+ * Get job's estimated position in the queue (1-based index)
+ * Jobs ahead of it are the user's own earlier jobs plus, for every round of
+ * the ring, one job per other active user. Computed from counters and the
+ * user's place in the ring, so it never scans the queued jobs themselves.
+ * Jobs waiting out a retry backoff have no ticket.
+ */
+async function getJobQueuePosition(job: QueueJob): Promise<number | undefined> {
+  if (!job.queueTicket) {
+    return undefined;
+  }
+
   try {
-    // Get all jobs in the queue
-    const queueLength = await kv.llen('queue:pending');
-    
-    if (!queueLength || queueLength === 0) {
-      return undefined;
-    }
+    const [userDequeued, removedAhead, activeUsers, ringIndex, totalPending] = await Promise.all([
+      store.get<number>(`${DEQUEUED_SEQ_KEY}:${job.userId}`),
+      store.sortedSetRangeByScore(`${REMOVED_TICKETS_PREFIX}${job.userId}`, 0, job.queueTicket - 1),
+      store.listLength(ACTIVE_USERS_KEY),
+      store.listIndexOf(ACTIVE_USERS_KEY, job.userId),
+      getQueueSize(),
+    ]);
 
-    // Get all items in the queue (Redis list is FIFO: 0 = front/next, -1 = back/last)
-    const queueItems = await kv.lrange('queue:pending', 0, -1);
-    
-    if (!queueItems || queueItems.length === 0) {
+    // Cancelled jobs ahead of this one left gaps in the tickets
+    const placeInUserQueue = job.queueTicket - Number(userDequeued || 0) - removedAhead.length;
+    if (placeInUserQueue < 1) {
       return undefined;
     }
 
-    // Find the position of this job (0-based index)
-    const position = queueItems.findIndex((item) => {
-      const job: QueueJob = typeof item === 'string' ? JSON.parse(item) : (item as QueueJob);
-      return job.id === jobId;
-    });
+    // The ring is served from its right end, so the user's turn is counted from there
+    const turnInRing = ringIndex === null ? 0 : activeUsers - 1 - ringIndex;
+    const position = (placeInUserQueue - 1) * Math.max(activeUsers, 1) + turnInRing + 1;
 
-    // Return 1-based position (position 0 = "next in queue" = position 1)
-    return position >= 0 ? position + 1 : undefined;
+    // Position 1 = next in queue
+    return totalPending > 0 ? Math.min(position, totalPending) : position;
   } catch (error) {
     console.error('Error getting queue position:', error);
     return undefined;
@@ -214,21 +1286,40 @@ async function getJobQueuePosition(jobId: string): Promise<number | undefined> {
  * Get job result
  */
 export async function getJobResult(jobId: string): Promise<any | null> {
-  const resultData = await kv.get(`result:${jobId}`);
-
-  if (!resultData) {
-    return null;
-  }
-
-  return typeof resultData === 'string' ? JSON.parse(resultData) : resultData;
+  return store.get(`result:${jobId}`);
 }
 
 /**
  * Get queue size
  */
 export async function getQueueSize(): Promise<number> {
-  const size = await kv.llen('queue:pending');
-  return size || 0;
+  const [enqueued, dequeued, removed] = await Promise.all([
+    store.get<number>(ENQUEUED_SEQ_KEY),
+    store.get<number>(DEQUEUED_SEQ_KEY),
+    store.get<number>(REMOVED_SEQ_KEY),
+  ]);
+  return Math.max(Number(enqueued || 0) - Number(dequeued || 0) - Number(removed || 0), 0);
+}
+
+/**
+ * Get number of jobs currently leased to a worker
+ */
+export async function getInFlightCount(): Promise<number> {
+  return store.sortedSetSize(INFLIGHT_KEY);
+}
+
+/**
+ * Get number of jobs in the dead-letter queue
+ */
+export async function getDeadLetterCount(): Promise<number> {
+  return store.listLength(DEAD_LETTER_KEY);
+}
+
+/**
+ * Get number of jobs waiting out a retry backoff
+ */
+export async function getScheduledCount(): Promise<number> {
+  return store.sortedSetSize(SCHEDULED_KEY);
 }
 
 /**
@@ -236,16 +1327,25 @@ export async function getQueueSize(): Promise<number> {
  */
 export async function getQueueStats(): Promise<{
   pending: number;
+  inFlight: number;
+  scheduled: number;
+  deadLetter: number;
   rateLimit: {
     remaining: number;
     reset: number;
   };
 }> {
   const pending = await getQueueSize();
-  const { remaining, reset } = await ratelimit.limit('suno-api-stats');
+  const inFlight = await getInFlightCount();
+  const scheduled = await getScheduledCount();
+  const deadLetter = await getDeadLetterCount();
+  const { remaining, reset } = await store.rateLimit('suno-api-stats');
 
   return {
     pending,
+    inFlight,
+    scheduled,
+    deadLetter,
     rateLimit: {
       remaining,
       reset,
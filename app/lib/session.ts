@@ -0,0 +1,133 @@
+/**
+ * Session identity
+ * Every visitor gets a signed, httpOnly session cookie (set by middleware.ts)
+ * holding a stable anonymous id: `base64url(JSON identity).HMAC-SHA256(SESSION_SIGNING_SECRET)`.
+ * Server routes take the user id from this cookie, never from the request body.
+ *
+ * Signing uses Web Crypto so the same code runs in middleware (Edge runtime)
+ * and in route handlers.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const SESSION_COOKIE_NAME = 'ing_session';
+
+// Lifetime of the session cookie; the anonymous id is lost when it expires
+const sessionMaxAgeSeconds = parseInt(process.env.SESSION_MAX_AGE_SECONDS || String(60 * 60 * 24 * 365), 10);
+
+export interface SessionIdentity {
+  userId: string; // Used as the queue's userId: the anonymous id until the user signs in
+  kind: 'anonymous' | 'authenticated';
+  anonymousId: string; // Kept after sign-in, so anonymous jobs can be linked to the account
+  issuedAt: number;
+}
+
+const encoder = new TextEncoder();
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SIGNING_SECRET;
+
+  if (!secret) {
+    throw new Error('SESSION_SIGNING_SECRET is not configured');
+  }
+
+  if (!signingKey) {
+    signingKey = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+
+  return signingKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Serialize and sign a session for the cookie
+ */
+export async function signSession(session: SessionIdentity): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Parse a cookie value; returns null when it's malformed or the signature doesn't match
+ */
+export async function verifySession(value: string | undefined): Promise<SessionIdentity | null> {
+  const [payload, signature] = value?.split('.') ?? [];
+
+  if (!payload || !signature) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    return typeof session?.userId === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A fresh anonymous session for a first-time visitor
+ */
+export function createAnonymousSession(): SessionIdentity {
+  const anonymousId = `anon:${crypto.randomUUID()}`;
+  return { userId: anonymousId, kind: 'anonymous', anonymousId, issuedAt: Date.now() };
+}
+
+/**
+ * Upgrade path for sign-in: the same session, now carrying the authenticated
+ * user id. The anonymous id stays, so the caller can move the visitor's
+ * anonymous history over to the account.
+ */
+export function authenticateSession(session: SessionIdentity, userId: string): SessionIdentity {
+  return { ...session, userId, kind: 'authenticated', issuedAt: Date.now() };
+}
+
+/**
+ * Write the session cookie onto a response
+ */
+export async function setSessionCookie(response: NextResponse, session: SessionIdentity): Promise<void> {
+  response.cookies.set(SESSION_COOKIE_NAME, await signSession(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: sessionMaxAgeSeconds,
+  });
+}
+
+/**
+ * The session of a request, or null when it has no valid session cookie
+ */
+export async function getSession(request: NextRequest): Promise<SessionIdentity | null> {
+  return verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
@@ -0,0 +1,130 @@
+/**
+ * Streamed lyrics generation
+ * Calls /api/generate-lyrics in streaming mode and reports the draft as it's
+ * written. EventSource can't POST, so the Server-Sent Events are read from
+ * the fetch body. Resolves with the validated and moderated result only.
+ */
+
+import type { LyricsIssue } from './lyrics';
+
+export interface GeneratedLyrics {
+  lyrics: string;
+  mood: string;
+  language: string;
+  length: number;
+  moderation?: { flagged: boolean; cleaned: boolean };
+  [key: string]: unknown;
+}
+
+export type LyricsStreamStage = 'writing' | 'repairing' | 'moderating';
+
+export interface LyricsStreamProgress {
+  text: string; // Draft so far, not yet validated or moderated
+  stage: LyricsStreamStage;
+}
+
+// Events sent by /api/generate-lyrics, see its POST handler
+type LyricsStreamEvent =
+  | { event: 'token'; data: { text: string } }
+  | { event: 'restart'; data: { attempt: number } }
+  | { event: 'status'; data: { stage: LyricsStreamStage } }
+  | { event: 'done'; data: GeneratedLyrics }
+  | { event: 'error'; data: { error?: string; issues?: LyricsIssue[] } };
+
+/**
+ * Read one Server-Sent Event. Events without data or with data that isn't
+ * JSON are skipped (null); the event name is trusted to match the data.
+ */
+function parseEvent(block: string): LyricsStreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (data.length === 0) {
+    return null;
+  }
+
+  try {
+    return { event, data: JSON.parse(data.join('\n')) } as LyricsStreamEvent;
+  } catch (error) {
+    console.warn(`⚠️ Skipping malformed lyrics stream event '${event}':`, error);
+    return null;
+  }
+}
+
+/**
+ * Generate lyrics, calling onProgress with the growing draft. Rejects when
+ * the generation fails or the stream ends without a result.
+ */
+export async function streamLyrics(
+  request: Record<string, unknown>,
+  onProgress: (progress: LyricsStreamProgress) => void
+): Promise<GeneratedLyrics> {
+  const response = await fetch('/api/generate-lyrics', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
+
+  // Invalid requests are answered before the stream starts
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Lyrics generation failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let stage: LyricsStreamStage = 'writing';
+
+  // Stop reading once there's a result, or when anything throws
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const parsed = parseEvent(block);
+        if (!parsed) {
+          continue;
+        }
+
+        switch (parsed.event) {
+          case 'token':
+            text += parsed.data.text;
+            break;
+          case 'restart':
+            text = '';
+            break;
+          case 'status':
+            stage = parsed.data.stage;
+            break;
+          case 'done':
+            return parsed.data;
+          case 'error':
+            throw new Error(parsed.data.error || 'Lyrics generation failed');
+        }
+
+        onProgress({ text, stage });
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+
+  throw new Error('Lyrics stream ended without a result');
+}
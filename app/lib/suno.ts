@@ -0,0 +1,127 @@
+/**
+ * Suno API helpers (server only)
+ * The API key is read from SUNO_API_KEY and never reaches the browser
+ */
+
+const SUNO_API_BASE_URL = 'https://api.sunoapi.org/api/v1';
+
+// Task states after which Suno will not produce audio
+const FAILED_TASK_STATUSES = [
+  'CREATE_TASK_FAILED',
+  'GENERATE_AUDIO_FAILED',
+  'CALLBACK_EXCEPTION',
+  'SENSITIVE_WORD_ERROR',
+];
+
+export interface MusicTrack {
+  id: string;
+  title: string;
+  tags?: string;
+  streamUrl?: string; // Stream preview URL (available after ~20-30s)
+  audioUrl?: string; // Full quality download URL (available after ~2-5 min)
+  imageUrl?: string;
+  duration?: number; // Seconds
+}
+
+// 'stream': every track can be streamed, full quality still generating
+// 'complete': every track has its full quality URL
+export type MusicStage = 'pending' | 'stream' | 'complete';
+
+export interface MusicTaskStatus {
+  taskId: string;
+  status: string;
+  stage: MusicStage;
+  tracks: MusicTrack[];
+  failed: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * Get the Suno API key, or throw when it isn't configured
+ */
+export function getSunoApiKey(): string {
+  const apiKey = process.env.SUNO_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('SUNO_API_KEY is not configured');
+  }
+
+  return apiKey;
+}
+
+/**
+ * Only Suno endpoints may be called with our key
+ */
+export function isSunoEndpoint(endpoint: string): boolean {
+  return endpoint.startsWith(`${SUNO_API_BASE_URL}/`);
+}
+
+/**
+ * Normalize Suno track data; the API mixes camelCase and snake_case fields
+ */
+export function toMusicTracks(sunoData: any[]): MusicTrack[] {
+  return sunoData.map((item: any) => ({
+    id: item.id,
+    title: item.title || 'ING Music Track',
+    tags: item.tags,
+    streamUrl: item.streamAudioUrl || item.streamUrl || item.stream_url || item.stream_audio_url || undefined,
+    audioUrl: item.audioUrl || item.audio_url || undefined,
+    imageUrl: item.imageUrl || item.image_url || undefined,
+    duration: item.duration && !isNaN(item.duration) ? Number(item.duration) : undefined,
+  }));
+}
+
+/**
+ * Which URLs are ready for all tracks
+ */
+export function getMusicStage(tracks: MusicTrack[]): MusicStage {
+  if (tracks.length === 0) {
+    return 'pending';
+  }
+
+  if (tracks.every((track) => track.audioUrl)) {
+    return 'complete';
+  }
+
+  if (tracks.every((track) => track.streamUrl || track.audioUrl)) {
+    return 'stream';
+  }
+
+  return 'pending';
+}
+
+/**
+ * Fetch the current state of a music generation task
+ */
+export async function getMusicTaskStatus(taskId: string): Promise<MusicTaskStatus> {
+  const response = await fetch(
+    `${SUNO_API_BASE_URL}/generate/record-info?taskId=${encodeURIComponent(taskId)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${getSunoApiKey()}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Suno status request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const result = await response.json();
+
+  if (result.code !== 200 || !result.data) {
+    throw new Error(result.msg || 'Suno status request failed');
+  }
+
+  const status: string = result.data.status || 'UNKNOWN';
+  const tracks = toMusicTracks(result.data.response?.sunoData || []);
+
+  return {
+    taskId,
+    status,
+    stage: getMusicStage(tracks),
+    tracks,
+    failed: FAILED_TASK_STATUSES.includes(status),
+    errorMessage: result.data.errorMessage || undefined,
+  };
+}
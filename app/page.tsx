@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import InputForm from "./components/InputForm";
 import Loader from "./components/Loader";
@@ -9,7 +9,17 @@ import TrackGrid from "./components/TrackGrid";
 import LyricsSelectionWithForm from "./components/LyricsSelectionWithForm";
 import StepIndicator from "./components/StepIndicator";
 import { containsProfanitySync } from "./lib/profanity-filter";
-import { pollJobUntilComplete } from "./lib/poll-job"; // Only used for music generation queue
+import { streamLyrics } from "./lib/stream-lyrics";
+import { describeLyricsErrors, hasLyricsErrors, normalizeLyrics, parseLyrics, serializeLyrics } from "./lib/lyrics";
+import {
+  pollJobWithProgress,
+  cancelJob,
+  consumeSharedJobLink,
+  getJobShareUrl,
+  getJobStatuses,
+  saveJobAccessToken,
+  type JobStatus,
+} from "./lib/poll-job";
 
 // Rate limiting helper
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -58,6 +68,17 @@ async function fetchWithRetry(
   throw new Error("Max retries reached");
 }
 
+// Locked ING chorus, swapped into every generated lyrics option
+const ING_CHORUS = `[Chorus]
+Fac ce vreau, nu-mi pasă
+E viața mea, hai lasă
+Că fac ce vreau, ești culmea
+Și ce-o să zică lumea
+Fac ce vreau, nu-mi pasă
+E viața mea, hai lasă
+Că fac ce vreau, ești culmea
+Și ce-o să zică lumea`;
+
 // Mood to BPM mapping - must match the one in LyricsSelectionWithForm
 const moodToBPM: Record<"sad" | "chill" | "creative" | "hype", string> = {
   sad: "60-80 BPM",
@@ -95,6 +116,14 @@ interface LyricsOption {
   errorMessage?: string;
 }
 
+interface MusicData {
+  genre: string;
+  vocalType: "male" | "female" | "duet";
+  title?: string;
+  remixedBy?: string;
+  mood: "sad" | "chill" | "creative" | "hype";
+}
+
 type AppState =
   | "input"
   | "lyrics-selection"
@@ -163,6 +192,17 @@ function extractSongNameFromUrl(url: string): string {
   }
 }
 
+// Map track data from the job result to what processAndDisplayTracks expects.
+// Stream previews play from the stream URL until full quality is ready.
+function toPlayableTracks(tracks: any[], isStreaming: boolean): any[] {
+  return tracks.map((track) => ({
+    ...track,
+    audioUrl: isStreaming ? track.streamUrl : track.audioUrl,
+    isStreaming,
+    isUpgrading: isStreaming,
+  }));
+}
+
 // Simple language detection function
 // Detects Romanian by checking for Romanian-specific characters and common words
 function detectLanguage(text: string): string {
@@ -204,6 +244,7 @@ export default function Home() {
     message?: string;
     attempts?: number;
     maxRetries?: number;
+    eta?: JobStatus["eta"];
   }>({});
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const router = useRouter();
@@ -227,32 +268,20 @@ export default function Home() {
 
   // Function to inject ING locked chorus into generated lyrics
   const injectINGChorus = (generatedLyrics: string): string => {
-    const lockedChorus = `[Chorus]
-Fac ce vreau, nu-mi pasă
-E viața mea, hai lasă
-Că fac ce vreau, ești culmea
-Și ce-o să zică lumea
-Fac ce vreau, nu-mi pasă
-E viața mea, hai lasă
-Că fac ce vreau, ești culmea
-Și ce-o să zică lumea`;
-
-    // Find and replace the first [Chorus] section with our locked chorus
-    const chorusRegex = /\[Chorus\]([\s\S]*?)(?=\[|$)/i;
-    
-    if (chorusRegex.test(generatedLyrics)) {
-      // Replace existing chorus with locked chorus
-      return generatedLyrics.replace(chorusRegex, lockedChorus + '\n\n');
+    const chorus = parseLyrics(ING_CHORUS).lyrics.sections[0];
+    const { sections } = parseLyrics(generatedLyrics).lyrics;
+
+    // Replace the first chorus with our locked chorus; without one, insert it
+    // after the first verse, or put it first if the structure is unclear
+    const chorusIndex = sections.findIndex((section) => section.type === "chorus");
+    if (chorusIndex >= 0) {
+      sections[chorusIndex] = chorus;
     } else {
-      // If no chorus found, insert after first verse
-      const verseRegex = /(\[Verse[^\]]*\][\s\S]*?)(?=\[|$)/i;
-      if (verseRegex.test(generatedLyrics)) {
-        return generatedLyrics.replace(verseRegex, `$1\n${lockedChorus}\n\n`);
-      }
+      const verseIndex = sections.findIndex((section) => section.type === "verse");
+      sections.splice(verseIndex + 1, 0, chorus);
     }
-    
-    // Fallback: prepend chorus if structure unclear
-    return `${lockedChorus}\n\n${generatedLyrics}`;
+
+    return serializeLyrics({ sections });
   };
 
   // Save active job to localStorage for recovery after page refresh
@@ -281,53 +310,80 @@ Că fac ce vreau, ești culmea
     }
   };
 
-  // Recover active job on page load
+  // Resume the active job after a page refresh, in a new tab, or from a shared
+  // job link (?job=…&token=…). The server's job state decides the screen:
+  // loader while queued or generating, preview player once the stream is
+  // ready, results when full quality is done.
   const recoverActiveJob = async () => {
     try {
+      const sharedJobId = consumeSharedJobLink();
       const savedJob = localStorage.getItem('ing_active_job');
-      if (!savedJob) return;
+      const saved = savedJob ? JSON.parse(savedJob) : null;
 
-      const job = JSON.parse(savedJob);
-      const ageMinutes = (Date.now() - job.savedAt) / 1000 / 60;
+      // A shared link wins over this device's own job, which is still resumed
+      // when the link has expired; both are looked up in one request
+      const jobIds = Array.from(new Set([sharedJobId, saved?.jobId].filter((id): id is string => !!id)));
+      if (jobIds.length === 0) return;
 
-      // Only recover jobs less than 10 minutes old
-      if (ageMinutes > 10) {
-        console.log(`⏰ Saved job is ${ageMinutes.toFixed(1)} minutes old, skipping recovery`);
+      const statuses = await getJobStatuses(jobIds);
+      const status = statuses.find((entry): entry is JobStatus => entry !== null);
+
+      if (saved?.jobId && !statuses[jobIds.indexOf(saved.jobId)]) {
+        console.log(`⏰ Job ${saved.jobId} no longer exists`);
         clearActiveJob();
+      }
+
+      if (!status) {
+        console.log(`⏰ No job left to recover`);
+        if (sharedJobId) setError("Linkul a expirat sau nu mai este valid.");
         return;
       }
 
-      console.log(`🔄 Recovering job ${job.jobId} (${ageMinutes.toFixed(1)} min old)`);
-      setActiveJobId(job.jobId);
-      setState('loading');
+      const jobId = status.jobId;
+      const local = saved?.jobId === jobId ? saved : null;
 
-      // Poll for job completion
-      const { pollJobWithProgress } = await import("./lib/poll-job");
-      
-      const result = await pollJobWithProgress(
-        job.jobId,
-        (status) => {
-          setQueueStatus({
-            position: status.queuePosition,
-            estimatedWait: status.estimatedWaitSeconds,
-            message: status.message,
-            attempts: status.attempts,
-            maxRetries: status.maxRetries,
-          });
-        },
-        120, // 4 minutes max for recovery
-        2000
+      // Jobs enqueued on this device are in localStorage; shared ones carry
+      // what's needed to show them in their status
+      const musicData: MusicData | undefined = status.display?.musicData ?? local?.musicData;
+      const lyrics: string | undefined = status.display?.lyrics ?? local?.lyrics;
+
+      if (status.type !== "music" || !musicData || !lyrics) {
+        console.log(`⚠️ Job ${jobId} can't be shown on this page, skipping recovery`);
+        if (local) clearActiveJob();
+        return;
+      }
+
+      if (status.status === "failed" || status.status === "cancelled") {
+        console.log(`🛑 Job ${jobId} already ${status.status}, nothing to recover`);
+        if (local) clearActiveJob();
+        if (status.status === "failed") {
+          setError(getUserFriendlyError(status.error || "Job failed"));
+        }
+        return;
+      }
+
+      console.log(
+        `🔄 Recovering job ${jobId} (${status.status}${status.result?.stage ? `, ${status.result.stage}` : ""})`
       );
+      saveActiveJob(jobId, { type: "music", musicData, lyrics });
+      setError(null);
+      setQueueStatus({});
+      setState("loading");
 
-      if (result && result.taskId) {
-        console.log(`✅ Job recovered! TaskId: ${result.taskId}`);
-        // Continue with normal Suno polling
-        // ... (implement based on your existing flow)
+      await followMusicJob(jobId, musicData, lyrics, status.createdAt ?? Date.now());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
+
+      // Cancelled here or in another tab
+      if (errorMessage === "Job cancelled") {
         clearActiveJob();
+        setState("input");
+        return;
       }
-    } catch (err) {
+
       console.error('Failed to recover job:', err);
       clearActiveJob();
+      setError(getUserFriendlyError(errorMessage));
       setState('input');
     }
   };
@@ -337,6 +393,49 @@ Că fac ce vreau, ești culmea
     recoverActiveJob();
   }, []);
 
+  // A generation started in another tab shows up here too
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === 'ing_active_job' && event.newValue && state === "input" && !activeJobId) {
+        recoverActiveJob();
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [state, activeJobId]);
+
+  // Cancel the queued job when the user goes back to the form without a result
+  // (completed and failed jobs clear activeJobId before the state changes; the
+  // stream preview keeps the job running for its full quality audio)
+  const previousStateRef = useRef<AppState>(state);
+  useEffect(() => {
+    const previousState = previousStateRef.current;
+    previousStateRef.current = state;
+
+    if (previousState === "loading" && state === "input" && activeJobId) {
+      console.log(`🚫 Left loading screen, cancelling job ${activeJobId}`);
+      cancelJob(activeJobId);
+      clearActiveJob();
+    }
+  }, [state, activeJobId]);
+
+  // Browser back button on the loading screen returns to the form (and cancels).
+  // One history entry per job, however often the loading screen is re-entered.
+  const historyJobIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (state !== "loading") return;
+
+    if (activeJobId && historyJobIdRef.current !== activeJobId) {
+      window.history.pushState({ loading: true, jobId: activeJobId }, "");
+      historyJobIdRef.current = activeJobId;
+    }
+    const handlePopState = () => setState("input");
+    window.addEventListener("popstate", handlePopState);
+
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [state, activeJobId]);
+
   const handleGenerateLyrics = async (
     prompt: string,
     selectedSong: string,
@@ -372,18 +471,6 @@ Că fac ce vreau, ești culmea
     setError(null);
 
     try {
-      const apiKey = process.env.NEXT_PUBLIC_SUNO_API_KEY;
-
-      if (!apiKey) {
-        throw new Error(
-          "API key is not configured. Please set NEXT_PUBLIC_SUNO_API_KEY in your .env.local file."
-        );
-      }
-
-      const baseUrl = process.env.NEXT_PUBLIC_VERCEL_URL
-        ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
-        : process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3001";
-
       // Step 1: Summarize the story using GPT (optimized settings)
       console.log(`\n🤖 === CALLING GPT SUMMARIZATION API ===`);
       console.log(`📝 Original story length: ${prompt.length} characters`);
@@ -437,69 +524,86 @@ Că fac ce vreau, ești culmea
 
       console.log(`\n🎭 === GENERATING LYRICS FOR ${moods.length} MOODS ===`);
 
-      // Generate 2 lyrics variations with different moods using the summarized story
+      // Generate 2 lyrics variations with different moods using the summarized story.
+      // The options are shown right away and fill in as the drafts stream;
+      // each becomes selectable once its validated, moderated text arrives.
       const lyricsStartTime = Date.now();
+      const optionTitle = (mood: string) =>
+        `${mood.charAt(0).toUpperCase() + mood.slice(1)} Version`;
+
+      setLyricsOptions(
+        moods.map((mood) => ({ text: "", title: optionTitle(mood), status: "streaming" }))
+      );
+      setState("lyrics-selection");
+
+      const updateOption = (index: number, option: LyricsOption) => {
+        setLyricsOptions((options) =>
+          options.map((existing, optionIndex) => (optionIndex === index ? option : existing))
+        );
+      };
+
       const lyricsPromises = moods.map((mood, index) => {
         console.log(`\n🎵 Generating lyrics ${index + 1}/${moods.length}: ${mood} mood`);
 
-        return fetch("/api/generate-lyrics", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
+        return streamLyrics(
+          {
             summary: summary,
             mood: mood,
             language: detectedLanguage,
-          }),
+            // Verses are sung around the ING chorus, so match its meter
+            fixMeter: true,
+            chorus: ING_CHORUS,
+          },
+          (progress) => {
+            updateOption(index, {
+              text: progress.text,
+              title: optionTitle(mood),
+              status: progress.stage === "writing" ? "streaming" : progress.stage,
+            });
+          }
+        ).then((data) => {
+          const lyricsText = data.lyrics || '';
+
+          // Inject ING locked chorus into the generated lyrics
+          const lyricsWithINGChorus = injectINGChorus(lyricsText);
+          console.log(`🎤 Injected ING locked chorus into ${mood} lyrics`);
+          console.log(`   Original length: ${lyricsText.length} chars`);
+          console.log(`   With chorus: ${lyricsWithINGChorus.length} chars`);
+          if (data.moderation?.cleaned) {
+            console.warn(`🛡️ ${mood} lyrics were cleaned by moderation`);
+          }
+
+          const option: LyricsOption = {
+            text: lyricsWithINGChorus,
+            title: optionTitle(mood),
+            status: 'complete',
+          };
+          updateOption(index, option);
+          return option;
         });
       });
 
-      const responses = await Promise.all(lyricsPromises);
-
-      console.log(`\n📥 Received ${responses.length} API responses`);
-
-      // Check if all responses are ok
-      for (let i = 0; i < responses.length; i++) {
-        if (!responses[i].ok) {
-          const errorData = await responses[i].json();
-          console.error(`❌ Lyrics API Error for mood ${moods[i]}:`, errorData);
-          throw new Error(
-            errorData.error || `Lyrics generation failed: ${responses[i].status}`
-          );
-        }
-      }
-
-      // Parse responses and extract lyrics
-      const lyricsData = await Promise.all(
-        responses.map((r) => r.json())
+      const results = await Promise.allSettled(lyricsPromises);
+      const combinedLyrics = results.flatMap((result) =>
+        result.status === "fulfilled" ? [result.value] : []
       );
 
-      console.log(`\n✅ Generated ${lyricsData.length} lyrics variations`);
-      
-      // Process lyrics and inject ING chorus
-      const combinedLyrics: LyricsOption[] = lyricsData.map((data, index) => {
-        const lyricsText = data.lyrics || '';
-        
-        // Inject ING locked chorus into the generated lyrics
-        const lyricsWithINGChorus = injectINGChorus(lyricsText);
-        console.log(`🎤 Injected ING locked chorus into ${moods[index]} lyrics`);
-        console.log(`   Original length: ${lyricsText.length} chars`);
-        console.log(`   With chorus: ${lyricsWithINGChorus.length} chars`);
-        
-        return {
-          text: lyricsWithINGChorus,
-          title: `${moods[index].charAt(0).toUpperCase() + moods[index].slice(1)} Version`,
-          status: 'complete',
-        };
+      // Failed options stay on screen with their error
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          console.error(`❌ Lyrics API Error for mood ${moods[index]}:`, result.reason);
+          updateOption(index, {
+            text: "",
+            title: optionTitle(moods[index]),
+            status: "failed",
+            errorMessage:
+              result.reason instanceof Error ? result.reason.message : "Failed to generate lyrics",
+          });
+        }
       });
 
       const lyricsTime = ((Date.now() - lyricsStartTime) / 1000).toFixed(1);
       console.log(`✅ All lyrics generated in ${lyricsTime}s`);
-      
-      // Update state with lyrics options
-      setState("lyrics-selection");
-      setLyricsOptions(combinedLyrics);
 
       const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
       console.log(`\n✅ === ALL LYRICS GENERATION COMPLETE ===`);
@@ -509,7 +613,10 @@ Că fac ce vreau, ești culmea
       setIsGeneratingLyrics(false);
 
       if (combinedLyrics.length === 0) {
-        throw new Error("No lyrics were generated");
+        const firstFailure = results.find((result) => result.status === "rejected");
+        throw firstFailure?.status === "rejected" && firstFailure.reason instanceof Error
+          ? firstFailure.reason
+          : new Error("No lyrics were generated");
       }
     } catch (err) {
       const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -621,6 +728,62 @@ Că fac ce vreau, ești culmea
     console.log(`🎵 Displaying ${generatedTracks.length} tracks to user`);
   };
 
+  // Follow a music job through to full quality. Used for new generations and
+  // for jobs resumed after a refresh, in another tab or from a shared link.
+  // Throws when the job fails or is cancelled ("Job cancelled").
+  const followMusicJob = async (
+    jobId: string,
+    musicData: MusicData,
+    lyrics: string,
+    startTime: number
+  ) => {
+    // Stream preview ready (~20-30s): show the preview player
+    // Full quality ready (~2-5 min): the job completes, go to results
+    let previewShown = false;
+
+    const result = await pollJobWithProgress(
+      jobId,
+      (status) => {
+        setQueueStatus({
+          position: status.queuePosition,
+          estimatedWait: status.estimatedWaitSeconds,
+          message: status.message,
+          attempts: status.attempts,
+          maxRetries: status.maxRetries,
+          eta: status.eta,
+        });
+
+        if (!previewShown && status.result?.stage === "stream") {
+          previewShown = true;
+          const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+          console.log(`\n⚡ === STREAM PREVIEW READY (${totalTime}s) ===`);
+          console.log(`🎧 Stream playback available while full quality generates...`);
+
+          processAndDisplayTracks(
+            toPlayableTracks(status.result.tracks, true),
+            musicData,
+            lyrics
+          );
+          setState("preview-playing");
+        }
+      },
+      300, // 10 minutes: queue wait plus generation (4-5 min observed on slow devices)
+      2000
+    );
+
+    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(`\n✅ === FULL QUALITY READY (${totalTime}s) ===`);
+
+    // Clear before leaving the loading screen, so the job isn't cancelled
+    clearActiveJob();
+    processAndDisplayTracks(
+      toPlayableTracks(result.tracks, false),
+      musicData,
+      lyrics
+    );
+    router.push("/results");
+  };
+
   const handleMusicGeneration = async (
     lyrics: string,
     musicData: {
@@ -686,13 +849,13 @@ Că fac ce vreau, ești culmea
         console.log(`\n📄 FINAL LYRICS (English):\n${processedLyrics}\n`);
       }
 
-      const apiKey = process.env.NEXT_PUBLIC_SUNO_API_KEY;
-
-      if (!apiKey) {
-        throw new Error(
-          "API key is not configured. Please set NEXT_PUBLIC_SUNO_API_KEY in your .env.local file."
-        );
+      // Last check before paying for a generation: Suno needs tagged verses
+      // and a chorus
+      const structuredLyrics = normalizeLyrics(processedLyrics);
+      if (hasLyricsErrors(structuredLyrics.issues)) {
+        throw new Error(`Lyrics are malformed: ${describeLyricsErrors(structuredLyrics.issues)}`);
       }
+      processedLyrics = structuredLyrics.text;
 
       // Generate title if not provided
       let songTitle = musicData.title?.trim();
@@ -713,12 +876,6 @@ Că fac ce vreau, ești culmea
         );
       }
 
-      // Prepare the request body
-      // Get the callback URL - use Vercel URL in production, localhost in dev
-      const baseUrl = process.env.NEXT_PUBLIC_VERCEL_URL
-        ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
-        : process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3001";
-
       // Use fixed ING audio URL for all songs
       const audioUploadUrl = "https://cawkcwwomiojueeicqot.supabase.co/storage/v1/object/public/Songs/ing/Ing%20-%20Fac%20Ce%20vreau.mp3";
 
@@ -927,7 +1084,6 @@ Că fac ce vreau, ești culmea
         customMode: true,
         instrumental: false, // Always false since we removed instrumental option
         model: "V4_5ALL", // V4_5ALL generates ~1 minute music (faster, 2-3 min instead of 4-5 min)
-        callBackUrl: `${baseUrl}/api/callback`,
         weirdnessConstraint: 0.5, // Creative deviation/novelty (50%)
         styleWeight: 0.85, // Style guidance weight (85%)
         audioWeight: 1.0, // Input audio influence weight (100%)
@@ -966,7 +1122,6 @@ Că fac ce vreau, ești culmea
       console.log(
         `   - Style length: ${requestBody.style.length} chars (max 1000)`
       );
-      console.log(`   - Callback URL: ${requestBody.callBackUrl}`);
       console.log(`\n⚙️  API Parameters:`);
       console.log(`   - Weirdness: ${requestBody.weirdnessConstraint * 100}%`);
       console.log(`   - Style Weight: ${requestBody.styleWeight * 100}%`);
@@ -978,95 +1133,52 @@ Că fac ce vreau, ești culmea
       console.log(`   "${requestBody.style.substring(0, 200)}..."`);
       console.log(`\n⏱️  Expected completion: ~2-3 minutes (120-180s) - generates ~1 min music`);
 
-      // Call Suno API directly (queue disabled for ING project)
-      console.log(`\n🎯 === CALLING SUNO API DIRECTLY ===`);
-      const sunoStart = Date.now();
-      
-      const sunoResponse = await fetch(endpoint, {
+      // Queue the generation: the server calls Suno with its own key and
+      // tracks the task until the audio is ready
+      console.log(`\n🎯 === QUEUEING MUSIC GENERATION ===`);
+
+      // One key per generation: a resent request gets the same job back. A
+      // double click is caught by the server's per-user content hash.
+      const enqueueResponse = await fetch("/api/music/enqueue", {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${apiKey}`,
           "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
         },
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify({
+          endpoint,
+          requestBody,
+          display: { musicData, lyrics: processedLyrics }, // To resume the job elsewhere
+        }),
       });
 
-      if (!sunoResponse.ok) {
-        const errorText = await sunoResponse.text();
-        console.error(`❌ Suno API Error:`, errorText);
+      const enqueueData = await enqueueResponse.json();
+
+      if (!enqueueResponse.ok) {
         throw new Error(
-          `Music generation failed: ${sunoResponse.status} ${sunoResponse.statusText}`
+          enqueueData.error ||
+            `Music generation failed: ${enqueueResponse.status} ${enqueueResponse.statusText}`
         );
       }
 
-      const sunoResult = await sunoResponse.json();
-      const sunoTime = ((Date.now() - sunoStart) / 1000).toFixed(2);
-      console.log(`📡 Suno API call completed in ${sunoTime}s`);
+      const jobId: string = enqueueData.jobId;
+      saveJobAccessToken(jobId, enqueueData.accessToken);
+      saveActiveJob(jobId, { type: "music", musicData, lyrics: processedLyrics });
+      console.log(`\n✅ Job queued: ${jobId}`);
 
-      if (sunoResult.code !== 200) {
-        console.error(`❌ Suno API returned error:`, sunoResult);
-        throw new Error(sunoResult.msg || "Failed to generate music");
-      }
-
-      const taskId = sunoResult.data?.taskId;
+      await followMusicJob(jobId, musicData, processedLyrics, startTime);
 
-      if (!taskId) {
-        console.error("❌ No taskId in Suno response:", sunoResult);
-        throw new Error("No task ID received from Suno API");
-      }
-
-      console.log(`\n✅ Task created: ${taskId}`);
-
-      // Poll for results with progressive UI updates
-      // First callback: Stream preview ready (~20-30s) - Show celebration, then preview
-      // Second callback: Full quality ready (~2-5 min) - Show celebration, then upgrade to full
-      const pollResult = await pollForCompletion(
-        taskId,
-        apiKey,
-        360, // maxAttempts - 6 minutes timeout (handles slower devices: 4-5 min observed)
-        (readyTracks: any[]) => {
-          const isStreamPreview = readyTracks.some((t) => t.isStreaming);
-          const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-
-          if (isStreamPreview) {
-            // STREAM PREVIEW READY (~20-30s)
-            console.log(
-              `\n⚡ === STREAM PREVIEW CALLBACK: Showing preview player ===`
-            );
-            console.log(`⏱️  Time to preview: ${totalTime}s`);
-            console.log(
-              `🎧 Stream playback available while full quality generates...`
-            );
-
-            // Process and save tracks
-            processAndDisplayTracks(readyTracks, musicData, processedLyrics);
-
-            // Show preview player inline - users can listen immediately
-            setState("preview-playing");
-            console.log(`� Showing preview player with playable tracks...`);
-          } else {
-            // FULL QUALITY READY (~2-5 min) OR upgrade from stream
-            console.log(
-              `\n⚡ === FULL QUALITY CALLBACK: Upgrading to full quality ===`
-            );
-            console.log(`⏱️  Time to full quality: ${totalTime}s`);
-            console.log(`📥 Full download URLs now available`);
-
-            // Process and save tracks
-            processAndDisplayTracks(readyTracks, musicData, processedLyrics);
-
-            // Redirect directly to results page (no celebration screen)
-            console.log(`� Redirecting to results page...`);
-            router.push("/results");
-          }
-        }
-      );
-
-      // pollResult will only have data if callback wasn't called (SUCCESS without FIRST_SUCCESS)
-      // In normal flow, callback handles everything and pollResult is returned after callback
       console.log(`\n✅ === MUSIC GENERATION COMPLETE ===`);
     } catch (err) {
       const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
+
+      // The user cancelled and is already back on the form
+      if (errorMessage === "Job cancelled") {
+        console.log(`🚫 Music generation cancelled after ${totalTime}s`);
+        return;
+      }
+
       console.error(`\n❌ === MUSIC GENERATION FAILED (${totalTime}s) ===`);
       console.error("Error:", err);
       
@@ -1074,7 +1186,6 @@ Că fac ce vreau, ești culmea
       clearActiveJob();
       
       // Check if it's a max retries error
-      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
       const isMaxRetriesError = errorMessage.includes("Failed after") || errorMessage.includes("attempts");
       
       // Always use sanitized error message
@@ -1084,466 +1195,6 @@ Că fac ce vreau, ești culmea
     }
   };
 
-  const pollForLyrics = async (
-    taskId: string,
-    apiKey: string,
-    mood: string,
-    summary: string,
-    maxAttempts = 180 // 6 minutes timeout (180 attempts * 2s = 360s)
-  ): Promise<LyricsOption[]> => {
-    const startTime = Date.now();
-    console.log(`\n🎯 === LYRICS GENERATION STARTED ===`);
-    console.log(`📝 Task ID: ${taskId}`);
-    console.log(`⏰ Start time: ${new Date(startTime).toLocaleTimeString()}`);
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const attemptTime = Date.now();
-        console.log(
-          `\n🔄 Attempt ${attempt + 1}/${maxAttempts} (${(
-            (attemptTime - startTime) /
-            1000
-          ).toFixed(1)}s elapsed)`
-        );
-
-        const response = await fetch(
-          `https://api.sunoapi.org/api/v1/lyrics/record-info?taskId=${taskId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          console.error(`❌ Polling failed: HTTP ${response.status}`);
-          const errorText = await response.text();
-          console.error(`❌ Response body:`, errorText);
-
-          if (attempt < maxAttempts - 3) {
-            console.log(`⏰ Retry in 2s...`);
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-            continue;
-          }
-
-          throw new Error(`Lyrics polling failed: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const taskStatus = result.data?.status || "UNKNOWN";
-
-        console.log(`📊 Status: ${taskStatus}`);
-
-        if (result.code === 200 && result.data) {
-          // Check if generation is complete
-          if (
-            (taskStatus === "SUCCESS" || taskStatus === "complete") &&
-            result.data.response?.data
-          ) {
-            const lyricsData = result.data.response.data;
-            const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-            console.log(`\n✅ === LYRICS GENERATION COMPLETE ===`);
-            console.log(`⏱️  Total time: ${totalTime}s`);
-            console.log(`📝 Generated ${lyricsData.length} lyrics options`);
-            return lyricsData;
-          }
-
-          // Check for failure states - throw immediately
-          if (
-            taskStatus === "failed" ||
-            taskStatus === "error" ||
-            taskStatus === "FAILED" ||
-            taskStatus === "GENERATE_LYRIC_FAILED"
-          ) {
-            const errorMsg =
-              result.data.errorMessage ||
-              result.data.error ||
-              "Lyrics generation failed";
-            console.error(`\n❌ === SUNO LYRICS GENERATION FAILED ===`);
-            console.error(`📝 Task ID: ${taskId}`);
-            console.error(`❌ Error: ${errorMsg}`);
-            console.error(`📊 Full response:`, JSON.stringify(result, null, 2));
-
-            // FALLBACK: Use OpenAI to generate lyrics
-            console.log(`\n🔄 === FALLING BACK TO OPENAI ===`);
-            console.log(`🤖 Generating lyrics with GPT-4o-mini...`);
-
-            try {
-              const detectedLanguage = detectLanguage(summary);
-              const fallbackStartTime = Date.now();
-
-              const openaiResponse = await fetch("/api/generate-lyrics", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                  summary: summary,
-                  mood: mood,
-                  language: detectedLanguage,
-                }),
-              });
-
-              if (!openaiResponse.ok) {
-                throw new Error("OpenAI fallback also failed");
-              }
-
-              const openaiResult = await openaiResponse.json();
-              const fallbackTime = (
-                (Date.now() - fallbackStartTime) /
-                1000
-              ).toFixed(1);
-
-              console.log(`✅ OpenAI fallback succeeded in ${fallbackTime}s`);
-              console.log(
-                `📝 Generated lyrics length: ${openaiResult.length} chars`
-              );
-
-              const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-              console.log(
-                `\n✅ === LYRICS GENERATION COMPLETE (OPENAI FALLBACK) ===`
-              );
-              console.log(`⏱️  Total time: ${totalTime}s`);
-              console.log(`📝 Generated 1 lyrics option via OpenAI`);
-
-              // Return in Suno format
-              return [
-                {
-                  text: openaiResult.lyrics,
-                  title: `${
-                    mood.charAt(0).toUpperCase() + mood.slice(1)
-                  } Version (AI)`,
-                  status: "complete",
-                },
-              ];
-            } catch (fallbackError) {
-              console.error(`❌ OpenAI fallback failed:`, fallbackError);
-              throw new Error(`Both Suno and OpenAI failed: ${errorMsg}`);
-            }
-          }
-
-          // Still processing
-          console.log(`⏳ Processing... (${taskStatus})`);
-        }
-
-        // Wait 2 seconds before next poll
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      } catch (err) {
-        console.error("❌ Polling error:", err);
-        if (err instanceof Error && err.message.includes("failed")) {
-          throw err;
-        }
-      }
-    }
-
-    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.error(`\n⏰ === SUNO TIMEOUT AFTER ${totalTime}s ===`);
-    console.log(`\n🔄 === FALLING BACK TO OPENAI (TIMEOUT) ===`);
-    console.log(`🤖 Generating lyrics with GPT-4o-mini...`);
-
-    // FALLBACK: Use OpenAI when Suno times out
-    try {
-      const detectedLanguage = detectLanguage(summary);
-      const fallbackStartTime = Date.now();
-
-      const openaiResponse = await fetch("/api/generate-lyrics", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          summary: summary,
-          mood: mood,
-          language: detectedLanguage,
-        }),
-      });
-
-      if (!openaiResponse.ok) {
-        throw new Error("OpenAI fallback also failed");
-      }
-
-      const openaiResult = await openaiResponse.json();
-      const fallbackTime = ((Date.now() - fallbackStartTime) / 1000).toFixed(1);
-
-      console.log(`✅ OpenAI fallback succeeded in ${fallbackTime}s`);
-      console.log(`📝 Generated lyrics length: ${openaiResult.length} chars`);
-
-      const totalTimeWithFallback = ((Date.now() - startTime) / 1000).toFixed(
-        1
-      );
-      console.log(`\n✅ === LYRICS GENERATION COMPLETE (OPENAI FALLBACK) ===`);
-      console.log(`⏱️  Total time: ${totalTimeWithFallback}s`);
-      console.log(`📝 Generated 1 lyrics option via OpenAI`);
-
-      // Return in Suno format
-      return [
-        {
-          text: openaiResult.lyrics,
-          title: `${mood.charAt(0).toUpperCase() + mood.slice(1)} Version (AI)`,
-          status: "complete",
-        },
-      ];
-    } catch (fallbackError) {
-      console.error(`❌ OpenAI fallback failed:`, fallbackError);
-      throw new Error(
-        "Lyrics generation timed out and OpenAI fallback also failed. Please try again."
-      );
-    }
-  };
-
-  // Background function to upgrade stream URLs to full download URLs
-  // NOTE: Background upgrade removed - Suno API expires task ID after FIRST_SUCCESS
-  // Tracks are immediately available with audioUrl after ~127s
-  // const upgradeToFullQuality = async (...) => { ... }
-
-  const pollForCompletion = async (
-    taskId: string,
-    apiKey: string,
-    maxAttempts = 360, // 6 minutes timeout - handles slower devices (4-5 min observed)
-    onStreamReady?: (tracks: any[]) => void // Callback when audio URLs are ready
-  ): Promise<any> => {
-    const startTime = Date.now();
-    console.log(`\n🎵 === MUSIC GENERATION STARTED ===`);
-    console.log(`📝 Task ID: ${taskId}`);
-    console.log(`⏰ Start time: ${new Date(startTime).toLocaleTimeString()}`);
-    console.log(`⚡ Polling every 1 second - waiting for audio URLs`);
-    console.log(
-      `🎯 Expected: SUCCESS with audioUrl in 2-5 minutes (device-dependent)`
-    );
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const attemptTime = Date.now();
-        const elapsed = ((attemptTime - startTime) / 1000).toFixed(1);
-        console.log(
-          `\n🔄 Attempt ${attempt + 1}/${maxAttempts} (${elapsed}s elapsed)`
-        );
-
-        const response = await fetch(
-          `https://api.sunoapi.org/api/v1/generate/record-info?taskId=${taskId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          console.error(`❌ Polling failed: HTTP ${response.status}`);
-          const errorText = await response.text();
-          console.error(`❌ Response body:`, errorText);
-
-          // Don't throw immediately, wait and retry
-          if (attempt < maxAttempts - 3) {
-            console.log(`⏰ Retry in 1s...`);
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-            continue;
-          }
-
-          throw new Error(`Polling failed: ${response.status}`);
-        }
-
-        const result = await response.json();
-        const taskStatus = result.data?.status || "UNKNOWN";
-
-        console.log(`� Status: ${taskStatus}`);
-
-        // Log progress percentage if available
-        if (result.data?.progress) {
-          console.log(`📈 Progress: ${result.data.progress}%`);
-        }
-
-        if (result.code === 200 && result.data) {
-          // Check for failure states
-          if (
-            taskStatus === "CREATE_TASK_FAILED" ||
-            taskStatus === "GENERATE_AUDIO_FAILED" ||
-            taskStatus === "CALLBACK_EXCEPTION" ||
-            taskStatus === "SENSITIVE_WORD_ERROR"
-          ) {
-            const errorMsg = result.data.errorMessage || "Generation failed";
-            console.error(`❌ Task failed: ${errorMsg}`);
-            throw new Error(`Music generation failed: ${errorMsg}`);
-          }
-
-          // Check for stream URLs becoming available (happens much earlier than full audio)
-          // According to sunoapi.org playground: streamAudioUrl available after ~20-30s
-          if (result.data.response?.sunoData) {
-            const sunoData = result.data.response.sunoData;
-            const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-
-            // Check which tracks have stream URLs vs full audio URLs
-            const tracksWithStreamUrls = sunoData.filter(
-              (item: any) =>
-                item.streamAudioUrl || item.streamUrl || item.stream_url
-            );
-
-            const tracksWithFullUrls = sunoData.filter(
-              (item: any) => item.audioUrl || item.audio_url
-            );
-
-            // Log track details with URL inspection
-            console.log(`\n📊 === TRACK URL ANALYSIS (${totalTime}s) ===`);
-            sunoData.forEach((track: any, i: number) => {
-              console.log(`\n  Track ${i + 1}: "${track.title}"`);
-              console.log(
-                `    - streamAudioUrl: ${
-                  track.streamAudioUrl ? "EXISTS ✅" : "MISSING ❌"
-                }`
-              );
-              console.log(
-                `    - streamUrl: ${
-                  track.streamUrl ? "EXISTS ✅" : "MISSING ❌"
-                }`
-              );
-              console.log(
-                `    - audioUrl: ${track.audioUrl ? "EXISTS ✅" : "MISSING ❌"}`
-              );
-              console.log(
-                `    - stream_url: ${
-                  track.stream_url ? "EXISTS ✅" : "MISSING ❌"
-                }`
-              );
-              console.log(
-                `    - audio_url: ${
-                  track.audio_url ? "EXISTS ✅" : "MISSING ❌"
-                }`
-              );
-            });
-
-            // STREAM PREVIEW AVAILABLE (~20-30s) - Show preview while full track generates
-            if (
-              tracksWithStreamUrls.length === sunoData.length &&
-              tracksWithFullUrls.length === 0
-            ) {
-              console.log(`\n⚡ === STREAM PREVIEW READY (${totalTime}s) ===`);
-              console.log(
-                `🎵 All ${sunoData.length} track(s) have stream URLs`
-              );
-              console.log(`⏳ Full audio URLs still generating...`);
-
-              // Map tracks with stream URLs for preview playback
-              const streamPreviewTracks = sunoData.map((item: any) => ({
-                id: item.id,
-                title: item.title || "ING Music Track",
-                genre: item.tags || "Unknown",
-                audioUrl:
-                  item.streamAudioUrl || item.streamUrl || item.stream_url, // Use stream URL for playback
-                streamUrl:
-                  item.streamAudioUrl || item.streamUrl || item.stream_url, // Store stream URL separately
-                imageUrl: item.imageUrl || item.image_url,
-                isStreaming: true, // Mark as streaming preview
-                isUpgrading: true, // Show "upgrading" indicator
-                duration:
-                  item.duration && !isNaN(item.duration)
-                    ? `${Math.floor(item.duration / 60)}:${Math.floor(
-                        item.duration % 60
-                      )
-                        .toString()
-                        .padStart(2, "0")}`
-                    : undefined,
-              }));
-
-              // Call callback to show preview UI immediately
-              if (onStreamReady) {
-                console.log(
-                  `\n⚡ === CALLING UI UPDATE CALLBACK (STREAM PREVIEW) ===`
-                );
-                console.log(
-                  `🚀 UI will show stream preview with ${streamPreviewTracks.length} track(s)`
-                );
-                console.log(
-                  `⏳ Will continue polling for full quality audio...`
-                );
-                onStreamReady(streamPreviewTracks);
-              }
-
-              // Continue polling for full audio URLs
-              await new Promise((resolve) => setTimeout(resolve, 1000));
-              continue;
-            }
-
-            // FULL QUALITY AVAILABLE (~2-5 min) - Upgrade to full download URLs
-            if (tracksWithFullUrls.length === sunoData.length) {
-              console.log(`\n✅ === FULL QUALITY READY (${totalTime}s) ===`);
-              console.log(
-                `📥 All ${sunoData.length} track(s) have full audio URLs`
-              );
-              console.log(`📊 Status: ${taskStatus}`);
-
-              // Map tracks with full audio URLs
-              const fullQualityTracks = sunoData.map((item: any) => ({
-                id: item.id,
-                title: item.title || "ING Music Track",
-                genre: item.tags || "Unknown",
-                audioUrl: item.audioUrl || item.audio_url, // Use full quality URL
-                streamUrl:
-                  item.streamAudioUrl || item.streamUrl || item.stream_url, // Keep stream URL for reference
-                imageUrl: item.imageUrl || item.image_url,
-                isStreaming: false, // No longer streaming
-                isUpgrading: false, // Upgrade complete
-                duration:
-                  item.duration && !isNaN(item.duration)
-                    ? `${Math.floor(item.duration / 60)}:${Math.floor(
-                        item.duration % 60
-                      )
-                        .toString()
-                        .padStart(2, "0")}`
-                    : undefined,
-              }));
-
-              // Call callback to upgrade UI to full quality
-              if (onStreamReady) {
-                console.log(
-                  `\n⚡ === CALLING UI UPDATE CALLBACK (FULL QUALITY) ===`
-                );
-                console.log(
-                  `🚀 UI will upgrade to full quality for ${fullQualityTracks.length} track(s)`
-                );
-                onStreamReady(fullQualityTracks);
-              }
-
-              // Return the full quality tracks
-              console.log(
-                `✅ Generation complete - returning ${fullQualityTracks.length} track(s)`
-              );
-              return fullQualityTracks;
-            }
-
-            // PARTIAL STATE - Some URLs available but not all
-            if (
-              tracksWithStreamUrls.length > 0 ||
-              tracksWithFullUrls.length > 0
-            ) {
-              console.log(
-                `⏳ Partial URLs: ${tracksWithStreamUrls.length} stream, ${tracksWithFullUrls.length} full`
-              );
-              console.log(`   Waiting for all ${sunoData.length} tracks...`);
-            }
-          }
-
-          // Still processing (PENDING, TEXT_SUCCESS, FIRST_SUCCESS, etc.)
-          console.log(`⏳ Processing... (${taskStatus})`);
-        }
-
-        // Wait 1 second before next poll
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      } catch (err) {
-        console.error("❌ Polling error:", err);
-        // Don't break on individual polling errors, continue trying
-        if (err instanceof Error && err.message.includes("generation failed")) {
-          throw err; // Re-throw if it's a failure status
-        }
-      }
-    }
-
-    const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.error(`\n⏰ === TIMEOUT AFTER ${totalTime}s ===`);
-    throw new Error(
-      "Music generation is taking longer than expected. Please try again."
-    );
-  };
-
   const handleGenerateAnother = () => {
     setState("input");
     setTracks([]);
@@ -1620,11 +1271,6 @@ Că fac ce vreau, ești culmea
     setError(null);
 
     try {
-      const apiKey = process.env.NEXT_PUBLIC_SUNO_API_KEY;
-      if (!apiKey) {
-        throw new Error("API key is not configured");
-      }
-
       // Use the original track's data but with the new genre
       const musicData = {
         genre: newGenre,
@@ -1835,12 +1481,19 @@ Că fac ce vreau, ești culmea
           </div>
         )}
 
-        {state === "loading" && <Loader queueStatus={queueStatus} />}
+        {state === "loading" && (
+          <Loader
+            queueStatus={queueStatus}
+            onCancel={activeJobId ? () => setState("input") : undefined}
+            shareUrl={activeJobId ? getJobShareUrl(activeJobId) : null}
+          />
+        )}
 
         {state === "preview-playing" && (
           <PreviewPlayer
             tracks={tracks}
             message="Previzualizarea ta este gata! Bucură-te în timp ce generăm calitate înaltă..."
+            shareUrl={activeJobId ? getJobShareUrl(activeJobId) : null}
           />
         )}
 
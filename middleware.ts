@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE_NAME,
+  createAnonymousSession,
+  getSession,
+  setSessionCookie,
+  signSession,
+} from './app/lib/session';
+
+/**
+ * Give every visitor a session (see app/lib/session.ts). A request without a
+ * valid session cookie gets a new anonymous session, which is also passed on
+ * to the route handling this request, so a first visit can enqueue right away.
+ */
+export async function middleware(request: NextRequest) {
+  try {
+    if (await getSession(request)) {
+      return NextResponse.next();
+    }
+
+    const session = createAnonymousSession();
+    request.cookies.set(SESSION_COOKIE_NAME, await signSession(session));
+
+    const response = NextResponse.next({
+      request: { headers: request.headers },
+    });
+    await setSessionCookie(response, session);
+
+    console.log(`🪪 New anonymous session ${session.anonymousId}`);
+    return response;
+  } catch (error) {
+    // Without a session the enqueue routes refuse, but the rest of the app works
+    console.error('❌ Failed to issue session:', error);
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  // Suno callbacks, the cron worker and admin routes don't act for a visitor
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|assets/|api/callback|api/cron|api/admin).*)'],
+};
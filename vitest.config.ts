@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['app/**/*.test.ts'],
+    environment: 'node',
+    // The queue runs on the in-memory store, never a configured Vercel KV
+    env: { QUEUE_STORE: 'memory' },
+  },
+});